@@ -0,0 +1,135 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import log from 'testsolar-oss-sdk/src/testsolar_sdk/logger';
+import {
+  Attachment,
+  AttachmentType,
+} from "testsolar-oss-sdk/src/testsolar_sdk/model/testresult";
+
+// Playwright 报告中的附件：截图、视频、trace 等以 path 记录文件位置，
+// testInfo.attach() 传入 body 的附件以 base64 记录在 body 中
+export interface PlaywrightAttachment {
+  name: string;
+  contentType: string;
+  path?: string;
+  body?: string;
+}
+
+// 常见附件类型对应的扩展名，附件名称中没有扩展名时按类型补充
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/svg+xml": ".svg",
+  "image/webp": ".webp",
+  "video/webm": ".webm",
+  "video/mp4": ".mp4",
+  "application/zip": ".zip",
+  "application/json": ".json",
+  "application/pdf": ".pdf",
+  "application/xml": ".xml",
+  "text/plain": ".txt",
+  "text/html": ".html",
+  "text/markdown": ".md",
+  "text/csv": ".csv",
+  "text/xml": ".xml",
+};
+
+// 链接类型的附件，body 为一行一个的 URL，上报为链接附件
+const URI_LIST_CONTENT_TYPE = "text/uri-list";
+
+// 附件类型，去掉 charset 等参数
+function getContentType(attachment: PlaywrightAttachment): string {
+  return (attachment.contentType || "").split(";")[0].trim().toLowerCase();
+}
+
+// 获取附件文件的扩展名：优先按附件类型，平台按扩展名识别文件类型，原文件的扩展名（例如 .log、.dat）
+// 可能与附件类型不一致；附件类型不常见时使用原文件的扩展名，都没有时不带扩展名
+function getAttachmentExtension(attachment: PlaywrightAttachment): string {
+  const typeExtension = CONTENT_TYPE_EXTENSIONS[getContentType(attachment)];
+  if (typeExtension) {
+    return typeExtension;
+  }
+  return attachment.path ? path.extname(attachment.path) : "";
+}
+
+// 读取 text/uri-list 附件中的第一个 URL，"#" 开头的行为注释
+function getAttachmentUrl(attachment: PlaywrightAttachment): string | null {
+  if (getContentType(attachment) !== URI_LIST_CONTENT_TYPE || !attachment.body) {
+    return null;
+  }
+  const url = Buffer.from(attachment.body, "base64")
+    .toString("utf-8")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .find((line) => line !== "" && !line.startsWith("#"));
+  return url ?? null;
+}
+
+// 生成附件名称：附件名称去掉文件名中不允许的字符，没有扩展名时补充扩展名，例如 screenshot.png、api-response.json
+export function getAttachmentFileName(attachment: PlaywrightAttachment): string {
+  const name = (attachment.name || "attachment").replace(/[\\/:*?"<>|\s]+/g, "_");
+  const extension = getAttachmentExtension(attachment);
+  return extension && !name.toLowerCase().endsWith(extension.toLowerCase())
+    ? `${name}${extension}`
+    : name;
+}
+
+// 同一次执行中名称重复的附件依次追加序号，例如 log.txt、log-1.txt
+function makeUniqueFileName(fileName: string, used: Set<string>): string {
+  const extension = path.extname(fileName);
+  const base = fileName.slice(0, fileName.length - extension.length);
+  let candidate = fileName;
+  for (let index = 1; used.has(candidate); index++) {
+    candidate = `${base}-${index}${extension}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+// 每次执行的附件保存在附件目录下的独立子目录中，子目录名称由用例名称、project、重试次数和开始时间生成，
+// 不同用例（以及重跑时的多次运行）的同名附件互不覆盖；同一次执行的实时结果和最终结果保存到同一个目录
+export function getAttachmentDir(attachmentsPath: string, key: string): string {
+  const hash = createHash("md5").update(key).digest("hex").substring(0, 10);
+  return path.join(attachmentsPath, "results", hash);
+}
+
+// 保存一次执行的所有附件：text/uri-list 附件上报为链接，其余有 body 的附件写入文件，
+// 有 path 的附件拷贝到附件目录，源文件不存在时引用原路径
+export function saveAttachments(
+  attachments: PlaywrightAttachment[],
+  targetDir: string,
+): Attachment[] {
+  const saved: Attachment[] = [];
+  const used = new Set<string>();
+  for (const attachment of attachments) {
+    if (!attachment.body && !attachment.path) {
+      continue;
+    }
+    const url = getAttachmentUrl(attachment);
+    if (url) {
+      saved.push(new Attachment(attachment.name, url, AttachmentType.URL));
+      continue;
+    }
+    const fileName = makeUniqueFileName(getAttachmentFileName(attachment), used);
+    const targetPath = path.join(targetDir, fileName);
+    try {
+      if (attachment.body) {
+        fs.mkdirSync(targetDir, { recursive: true });
+        fs.writeFileSync(targetPath, Buffer.from(attachment.body, "base64"));
+        saved.push(new Attachment(fileName, targetPath, AttachmentType.FILE));
+      } else if (attachment.path && fs.existsSync(attachment.path)) {
+        fs.mkdirSync(targetDir, { recursive: true });
+        fs.copyFileSync(attachment.path, targetPath);
+        saved.push(new Attachment(fileName, targetPath, AttachmentType.FILE));
+      } else if (attachment.path) {
+        saved.push(new Attachment(fileName, attachment.path, AttachmentType.FILE));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      log.error(`保存附件 ${attachment.name} 失败: ${message}`);
+    }
+  }
+  return saved;
+}
@@ -0,0 +1,133 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from 'crypto';
+import log from 'testsolar-oss-sdk/src/testsolar_sdk/logger';
+
+import { ParsedTestcase } from "./utils";
+import { findPlaywrightConfig } from "./config";
+
+// 单个用例文件的缓存，hash 为文件内容的哈希
+export interface LoadCacheEntry {
+  hash: string;
+  testcases: ParsedTestcase[];
+}
+
+// 加载缓存，configHash 变化时整个缓存失效
+export interface LoadCache {
+  version: number;
+  configHash: string;
+  files: Record<string, LoadCacheEntry>;
+}
+
+// 缓存格式变化时递增，旧版本缓存会被忽略
+const LOAD_CACHE_VERSION = 1;
+
+const LOAD_CACHE_FILE = "playwright-load-cache.json";
+
+// 获取缓存文件路径，默认保存在项目的 .testsolar 目录下，可以通过 TESTSOLAR_TTP_LOADCACHEDIR 指定目录。
+// 多配置时每个配置文件（相对于项目根目录）使用独立的缓存文件
+export function getLoadCachePath(
+  projPath: string,
+  configFile: string | null = null,
+): string {
+  const cacheDir =
+    process.env.TESTSOLAR_TTP_LOADCACHEDIR || path.join(projPath, ".testsolar");
+  const fileName = configFile
+    ? LOAD_CACHE_FILE.replace(".json", `-${configFile.replace(/[/\\.:]/g, "_")}.json`)
+    : LOAD_CACHE_FILE;
+  return path.resolve(projPath, cacheDir, fileName);
+}
+
+// 计算文件内容的哈希，文件不存在时返回空字符串
+export function hashFile(filePath: string): string {
+  if (!fs.existsSync(filePath)) {
+    return "";
+  }
+  return createHash("md5").update(fs.readFileSync(filePath)).digest("hex");
+}
+
+// 计算 playwright 配置文件的哈希，配置变化会影响所有用例的加载结果。configFile 默认为项目根目录的配置文件
+export function computeConfigHash(
+  projPath: string,
+  configFile: string | null = null,
+): string {
+  const configPath = configFile
+    ? path.join(projPath, configFile)
+    : findPlaywrightConfig(projPath);
+  return configPath ? hashFile(configPath) : "";
+}
+
+// 读取缓存，缓存不存在、格式版本不一致或配置已变化时返回 null
+export function readLoadCache(
+  cachePath: string,
+  configHash: string,
+): LoadCache | null {
+  if (!fs.existsSync(cachePath)) {
+    return null;
+  }
+  try {
+    const cache = JSON.parse(fs.readFileSync(cachePath, "utf-8")) as LoadCache;
+    if (cache.version !== LOAD_CACHE_VERSION || cache.configHash !== configHash) {
+      log.info("Load cache is outdated, ignore it");
+      return null;
+    }
+    return cache;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log.error(`读取加载缓存 ${cachePath} 失败: ${message}`);
+    return null;
+  }
+}
+
+// 写入缓存，写入失败不影响加载结果
+export function writeLoadCache(cachePath: string, cache: LoadCache): void {
+  try {
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+    fs.writeFileSync(cachePath, JSON.stringify(cache));
+    log.info(`Load cache saved to ${cachePath}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log.error(`写入加载缓存 ${cachePath} 失败: ${message}`);
+  }
+}
+
+// 对比当前文件哈希与缓存，返回需要重新加载的文件以及可以直接复用的文件
+export function diffLoadCache(
+  cache: LoadCache,
+  fileHashes: Record<string, string>,
+): { changed: string[]; unchanged: string[] } {
+  const changed: string[] = [];
+  const unchanged: string[] = [];
+  for (const [file, hash] of Object.entries(fileHashes)) {
+    const entry = cache.files[file];
+    if (entry && entry.hash === hash) {
+      unchanged.push(file);
+    } else {
+      changed.push(file);
+    }
+  }
+  return { changed, unchanged };
+}
+
+// 按用例文件分组生成缓存，fileHashes 中没有的文件（例如扫描规则与 Playwright 不一致时）按需计算哈希
+export function buildLoadCache(
+  projPath: string,
+  configHash: string,
+  fileHashes: Record<string, string>,
+  testcases: ParsedTestcase[],
+): LoadCache {
+  const files: Record<string, LoadCacheEntry> = {};
+  for (const [file, hash] of Object.entries(fileHashes)) {
+    files[file] = { hash, testcases: [] };
+  }
+  for (const testcase of testcases) {
+    if (!files[testcase.path]) {
+      files[testcase.path] = {
+        hash: hashFile(path.join(projPath, testcase.path)),
+        testcases: [],
+      };
+    }
+    files[testcase.path].testcases.push(testcase);
+  }
+  return { version: LOAD_CACHE_VERSION, configHash, files };
+}
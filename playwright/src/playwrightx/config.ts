@@ -0,0 +1,321 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { minimatch } from "minimatch";
+import log from 'testsolar-oss-sdk/src/testsolar_sdk/logger';
+
+// testMatch / testIgnore 中的单个匹配规则
+export type FilePattern = string | RegExp;
+
+// 单个 project 生效的用例文件匹配配置
+export interface ProjectMatchConfig {
+  name: string;
+  testDir: string;
+  testMatch: FilePattern[];
+  testIgnore: FilePattern[];
+}
+
+// Playwright 支持的配置文件名，查找顺序与 Playwright 保持一致
+const CONFIG_FILE_NAMES = [
+  "playwright.config.ts",
+  "playwright.config.js",
+  "playwright.config.mts",
+  "playwright.config.mjs",
+  "playwright.config.cts",
+  "playwright.config.cjs",
+];
+
+// Playwright 默认的 testMatch
+export const DEFAULT_TEST_MATCH = "**/*.@(spec|test).?(c|m)[jt]s?(x)";
+
+// 查找目录下的 playwright 配置文件，不存在时返回 null
+export function findPlaywrightConfig(directory: string): string | null {
+  for (const name of CONFIG_FILE_NAMES) {
+    const configPath = path.join(directory, name);
+    if (fs.existsSync(configPath)) {
+      return configPath;
+    }
+  }
+  return null;
+}
+
+// 查找目录下（包括子目录）的所有 playwright 配置文件，返回相对于 directory 的路径，跳过 node_modules 和隐藏目录
+export function findPlaywrightConfigs(directory: string): string[] {
+  const configs: string[] = [];
+  const walk = (dir: string) => {
+    const configPath = findPlaywrightConfig(dir);
+    if (configPath) {
+      configs.push(path.relative(directory, configPath).split(path.sep).join("/"));
+    }
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (error) {
+      return;
+    }
+    for (const entry of entries) {
+      if (
+        entry.isDirectory() &&
+        entry.name !== "node_modules" &&
+        !entry.name.startsWith(".")
+      ) {
+        walk(path.join(dir, entry.name));
+      }
+    }
+  };
+  walk(directory);
+  return configs;
+}
+
+// 读取需要加载的 playwright 配置文件列表（相对于项目根目录）。环境变量 TESTSOLAR_TTP_CONFIGS 为 "auto" 时
+// 查找项目下的所有配置文件，也可以指定逗号分隔的配置文件列表；未设置时返回空数组，按原方式只使用项目根目录的配置
+export function getPlaywrightConfigs(projPath: string): string[] {
+  const raw = (process.env.TESTSOLAR_TTP_CONFIGS || "").trim();
+  if (raw === "") {
+    return [];
+  }
+  if (raw === "auto") {
+    return findPlaywrightConfigs(projPath);
+  }
+  return raw
+    .split(",")
+    .map((config) => config.trim())
+    .filter((config) => config !== "")
+    .map((config) => path.posix.normalize(config.split(path.sep).join("/")));
+}
+
+// 查找用例路径所属的配置文件：配置文件所在目录是用例路径前缀的配置中目录最长的一个，都不匹配时返回 null
+export function findConfigForPath(
+  casePath: string,
+  configs: string[],
+): string | null {
+  let matched: string | null = null;
+  let matchedDir = "";
+  for (const config of configs) {
+    const configDir = path.posix.dirname(config);
+    const isPrefix =
+      configDir === "." || casePath === configDir || casePath.startsWith(`${configDir}/`);
+    if (isPrefix && (matched === null || configDir.length > matchedDir.length)) {
+      matched = config;
+      matchedDir = configDir === "." ? "" : configDir;
+    }
+  }
+  return matched;
+}
+
+// 与 Playwright 的 createFileMatcher 一致：正则直接匹配绝对路径，
+// 字符串按 glob 匹配，不以 "**/" 开头时自动补上 "**/"
+export function matchesFilePatterns(
+  filePath: string,
+  patterns: FilePattern[],
+): boolean {
+  const normalizedPath = filePath.split(path.sep).join("/");
+  for (const pattern of patterns) {
+    if (pattern instanceof RegExp) {
+      pattern.lastIndex = 0;
+      if (pattern.test(normalizedPath)) {
+        return true;
+      }
+      continue;
+    }
+    const glob = pattern.startsWith("**/") ? pattern : `**/${pattern}`;
+    if (minimatch(normalizedPath, glob, { nocase: true, dot: true })) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// 判断文件是否会被指定 project 当作用例文件加载
+export function isTestFileForProject(
+  filePath: string,
+  project: ProjectMatchConfig,
+): boolean {
+  const relative = path.relative(project.testDir, filePath);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return false;
+  }
+  return (
+    matchesFilePatterns(filePath, project.testMatch) &&
+    !matchesFilePatterns(filePath, project.testIgnore)
+  );
+}
+
+// 获取对象字面量中的属性值
+function getProperty(
+  node: ts.ObjectLiteralExpression,
+  name: string,
+): ts.Expression | undefined {
+  for (const property of node.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+      property.name.text === name
+    ) {
+      return property.initializer;
+    }
+  }
+  return undefined;
+}
+
+// 解析 testDir，支持字符串以及 path.join/path.resolve(__dirname, '...') 形式，无法静态求值时返回 undefined
+function resolveDirValue(
+  node: ts.Expression | undefined,
+  configDir: string,
+): string | undefined {
+  if (!node) {
+    return undefined;
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return path.resolve(configDir, node.text);
+  }
+  if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    ["join", "resolve"].includes(node.expression.name.text)
+  ) {
+    const parts: string[] = [];
+    for (const arg of node.arguments) {
+      if (ts.isIdentifier(arg) && arg.text === "__dirname") {
+        parts.push(configDir);
+      } else if (ts.isStringLiteral(arg) || ts.isNoSubstitutionTemplateLiteral(arg)) {
+        parts.push(arg.text);
+      } else {
+        return undefined;
+      }
+    }
+    return path.resolve(configDir, ...parts);
+  }
+  log.warn(`无法静态解析 testDir: ${node.getText()}`);
+  return undefined;
+}
+
+// 解析 testMatch / testIgnore，支持字符串、正则以及它们组成的数组，无法静态求值的规则会被忽略
+function resolvePatternValue(
+  node: ts.Expression | undefined,
+): FilePattern[] | undefined {
+  if (!node) {
+    return undefined;
+  }
+  const elements = ts.isArrayLiteralExpression(node) ? node.elements : [node];
+  const patterns: FilePattern[] = [];
+  for (const element of elements) {
+    if (ts.isStringLiteral(element) || ts.isNoSubstitutionTemplateLiteral(element)) {
+      patterns.push(element.text);
+    } else if (ts.isRegularExpressionLiteral(element)) {
+      const text = element.text;
+      const lastSlash = text.lastIndexOf("/");
+      patterns.push(new RegExp(text.substring(1, lastSlash), text.substring(lastSlash + 1)));
+    } else {
+      log.warn(`无法静态解析匹配规则: ${element.getText()}`);
+    }
+  }
+  return patterns;
+}
+
+// 查找配置文件中导出的配置对象，支持 defineConfig({...})、export default {...}、module.exports = {...}
+// 以及先声明变量再导出的写法
+function findConfigObject(
+  sourceFile: ts.SourceFile,
+): ts.ObjectLiteralExpression | undefined {
+  const variables: Record<string, ts.Expression> = {};
+  let exported: ts.Expression | undefined;
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer
+    ) {
+      variables[node.name.text] = node.initializer;
+    } else if (ts.isExportAssignment(node)) {
+      exported = node.expression;
+    } else if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      node.left.getText(sourceFile) === "module.exports"
+    ) {
+      exported = node.right;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  const unwrap = (
+    node: ts.Expression | undefined,
+    depth: number = 0,
+  ): ts.ObjectLiteralExpression | undefined => {
+    if (!node || depth > 5) {
+      return undefined;
+    }
+    if (ts.isObjectLiteralExpression(node)) {
+      return node;
+    }
+    if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+      return unwrap(node.expression, depth + 1);
+    }
+    if (ts.isCallExpression(node) && node.arguments.length > 0) {
+      // defineConfig({...})
+      return unwrap(node.arguments[0], depth + 1);
+    }
+    if (ts.isIdentifier(node)) {
+      return unwrap(variables[node.text], depth + 1);
+    }
+    return undefined;
+  };
+  return unwrap(exported);
+}
+
+// 静态解析 playwright 配置文件，得到每个 project 生效的 testDir / testMatch / testIgnore。
+// 不执行配置文件，无法静态求值的配置项使用 Playwright 的默认值。没有配置文件时返回 null。
+// configPath 默认为 directory 下的配置文件
+export function resolveProjectConfigs(
+  directory: string,
+  configPath: string | null = findPlaywrightConfig(directory),
+): ProjectMatchConfig[] | null {
+  if (!configPath) {
+    return null;
+  }
+  const configDir = path.dirname(configPath);
+  const sourceFile = ts.createSourceFile(
+    configPath,
+    fs.readFileSync(configPath, "utf-8"),
+    ts.ScriptTarget.Latest,
+    true,
+  );
+
+  const defaults: ProjectMatchConfig = {
+    name: "",
+    testDir: configDir,
+    testMatch: [DEFAULT_TEST_MATCH],
+    testIgnore: [],
+  };
+  const config = findConfigObject(sourceFile);
+  if (!config) {
+    log.warn(`无法静态解析配置文件 ${configPath}，使用 Playwright 默认配置`);
+    return [defaults];
+  }
+
+  const resolveProject = (
+    node: ts.ObjectLiteralExpression,
+    base: ProjectMatchConfig,
+  ): ProjectMatchConfig => {
+    const name = getProperty(node, "name");
+    return {
+      name: name && ts.isStringLiteral(name) ? name.text : base.name,
+      testDir: resolveDirValue(getProperty(node, "testDir"), configDir) ?? base.testDir,
+      testMatch: resolvePatternValue(getProperty(node, "testMatch")) ?? base.testMatch,
+      testIgnore: resolvePatternValue(getProperty(node, "testIgnore")) ?? base.testIgnore,
+    };
+  };
+
+  const topLevel = resolveProject(config, defaults);
+  const projects = getProperty(config, "projects");
+  if (!projects || !ts.isArrayLiteralExpression(projects) || projects.elements.length === 0) {
+    return [topLevel];
+  }
+  const resolved = projects.elements
+    .filter(ts.isObjectLiteralExpression)
+    .map((project) => resolveProject(project, topLevel));
+  return resolved.length > 0 ? resolved : [topLevel];
+}
@@ -0,0 +1,231 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import log from 'testsolar-oss-sdk/src/testsolar_sdk/logger';
+
+import { isTestFileForProject, ProjectMatchConfig } from "./config";
+import {
+  addProjectPrefix,
+  disambiguateTestcases,
+  encodeQueryParams,
+  joinCaseTitle,
+  normalizeTag,
+  ParsedTestcase,
+  SUITE_PATH_SEPARATOR,
+} from "./utils";
+
+// 静态解析得到的用例，不执行用例文件，只根据语法树提取 test.describe / test 的声明
+export interface StaticTestcase {
+  title: string;
+  suitePath: string[];
+  line: number;
+  column: number;
+  modifiers: string[];
+  tags: string[];
+}
+
+// 解析时所在 describe 的上下文
+interface DescribeContext {
+  suitePath: string[];
+  modifiers: string[];
+  tags: string[];
+}
+
+// Playwright 用例声明的入口标识符
+const TEST_IDENTIFIER = "test";
+
+// test.skip('title', fn) 等带标题和函数体的调用声明的是用例，需要记录的修饰符
+const TEST_MODIFIERS = ["skip", "only", "fixme", "fail"];
+
+// test.describe.skip / only / fixme 修饰符会继承到其中的所有用例
+const DESCRIBE_MODIFIERS = ["skip", "only", "fixme"];
+
+// 获取调用表达式的属性链，例如 test.describe.skip(...) -> ["test", "describe", "skip"]
+function getCallChain(expression: ts.Expression): string[] | null {
+  if (ts.isIdentifier(expression)) {
+    return [expression.text];
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    const base = getCallChain(expression.expression);
+    return base ? [...base, expression.name.text] : null;
+  }
+  return null;
+}
+
+// 获取标题参数，模板字符串中的插值无法静态求值，保留其源码
+function getTitle(node: ts.Expression, sourceFile: ts.SourceFile): string | null {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isTemplateExpression(node)) {
+    return node.getText(sourceFile).slice(1, -1);
+  }
+  return null;
+}
+
+// 获取 details 参数中声明的标签，例如 { tag: '@smoke' } 或 { tag: ['@smoke', '@fast'] }
+function getDetailTags(node: ts.Expression | undefined): string[] {
+  if (!node || !ts.isObjectLiteralExpression(node)) {
+    return [];
+  }
+  const tags: string[] = [];
+  for (const property of node.properties) {
+    if (
+      !ts.isPropertyAssignment(property) ||
+      !ts.isIdentifier(property.name) ||
+      property.name.text !== "tag"
+    ) {
+      continue;
+    }
+    const values = ts.isArrayLiteralExpression(property.initializer)
+      ? property.initializer.elements
+      : [property.initializer];
+    for (const value of values) {
+      if (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value)) {
+        tags.push(normalizeTag(value.text));
+      }
+    }
+  }
+  return tags;
+}
+
+// 获取标题中的标签，与 Playwright 一样把 "@" 开头的单词视为标签
+function getTitleTags(title: string): string[] {
+  return (title.match(/@\S+/g) || []).map(normalizeTag);
+}
+
+function isFunction(node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression {
+  return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+}
+
+// 根据修饰符推断期望状态，与 Playwright --list 输出的 expectedStatus 一致
+function getExpectedStatus(modifiers: string[]): string {
+  if (modifiers.includes("skip") || modifiers.includes("fixme")) {
+    return "skipped";
+  }
+  return modifiers.includes("fail") ? "failed" : "passed";
+}
+
+function unique(items: string[]): string[] {
+  return Array.from(new Set(items));
+}
+
+// 解析单个用例文件的内容
+export function discoverTestsInFile(
+  fileName: string,
+  content: string,
+): StaticTestcase[] {
+  const testcases: StaticTestcase[] = [];
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+  );
+
+  const visit = (node: ts.Node, context: DescribeContext) => {
+    if (ts.isCallExpression(node)) {
+      const chain = getCallChain(node.expression);
+      if (chain && chain[0] === TEST_IDENTIFIER) {
+        const body = node.arguments.find(isFunction);
+        const title =
+          node.arguments.length > 0
+            ? getTitle(node.arguments[0], sourceFile)
+            : null;
+        // details 参数位于标题和函数体之间
+        const details = node.arguments.length > 2 ? node.arguments[1] : undefined;
+
+        if (chain[1] === "describe" && body) {
+          // test.describe.configure 等不带函数体的调用不会进入这里
+          const modifiers = chain
+            .slice(2)
+            .filter((modifier) => DESCRIBE_MODIFIERS.includes(modifier));
+          const tags = [
+            ...(title !== null ? getTitleTags(title) : []),
+            ...getDetailTags(details),
+          ];
+          visit(body.body, {
+            // 匿名 describe 不增加层级
+            suitePath: title !== null ? [...context.suitePath, title] : context.suitePath,
+            modifiers: unique([...context.modifiers, ...modifiers]),
+            tags: unique([...context.tags, ...tags]),
+          });
+          return;
+        }
+
+        const isTestCall =
+          chain.length === 1 ||
+          (chain.length === 2 && TEST_MODIFIERS.includes(chain[1]));
+        if (isTestCall && title !== null && body) {
+          const position = sourceFile.getLineAndCharacterOfPosition(
+            node.getStart(sourceFile),
+          );
+          testcases.push({
+            title,
+            suitePath: context.suitePath,
+            line: position.line + 1,
+            column: position.character + 1,
+            modifiers: unique([...context.modifiers, ...chain.slice(1)]),
+            tags: unique([
+              ...context.tags,
+              ...getTitleTags(title),
+              ...getDetailTags(details),
+            ]),
+          });
+          // 用例内部不会再声明用例，不再继续解析
+          return;
+        }
+      }
+    }
+    ts.forEachChild(node, (child) => visit(child, context));
+  };
+  visit(sourceFile, { suitePath: [], modifiers: [], tags: [] });
+
+  return testcases;
+}
+
+// 静态解析用例文件，返回与 --list 解析结果格式一致的用例。projects 为配置文件中静态解析的 project，
+// 多个 project 时与 --list 一样，每个匹配该文件的 project 生成一条带 "[project] " 前缀的用例
+export function discoverTests(
+  projPath: string,
+  files: string[],
+  projects: ProjectMatchConfig[] | null = null,
+): ParsedTestcase[] {
+  const testcases: ParsedTestcase[] = [];
+  const multiProject = projects !== null && projects.length > 1;
+  for (const file of files) {
+    const casePath = path.relative(projPath, file).split(path.sep).join("/");
+    const projectNames = multiProject
+      ? projects.filter((project) => isTestFileForProject(file, project)).map((project) => project.name)
+      : [""];
+    try {
+      const content = fs.readFileSync(file, "utf-8");
+      for (const testcase of discoverTestsInFile(file, content)) {
+        for (const project of projectNames) {
+          const name = addProjectPrefix(joinCaseTitle(testcase.suitePath, testcase.title), project);
+          testcases.push({
+            name: encodeQueryParams(`${casePath}?${name}`),
+            path: casePath,
+            line: testcase.line,
+            column: testcase.column,
+            tags: testcase.tags,
+            attributes: {
+              suitePath: testcase.suitePath.join(SUITE_PATH_SEPARATOR),
+              line: String(testcase.line),
+              column: String(testcase.column),
+              tags: JSON.stringify(testcase.tags),
+              annotations: JSON.stringify([]),
+              modifiers: JSON.stringify(testcase.modifiers),
+              expectedStatus: getExpectedStatus(testcase.modifiers),
+            },
+          });
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      log.error(`静态解析用例文件 ${file} 失败: ${message}`);
+    }
+  }
+  log.info(`静态解析得到 ${testcases.length} 条用例`);
+  return disambiguateTestcases(testcases);
+}
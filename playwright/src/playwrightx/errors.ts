@@ -0,0 +1,133 @@
+import {
+  TestCaseAssertError,
+  TestCaseRuntimeError,
+} from "testsolar-oss-sdk/src/testsolar_sdk/model/testresult";
+
+// Playwright 报告中的错误：JSON 报告 errors[] 中的 message 已经拼接了源码片段和调用栈，
+// 实时上报的结果中 stack、snippet 单独记录
+export interface PlaywrightError {
+  message?: string;
+  value?: string;
+  stack?: string;
+  snippet?: string;
+  location?: { file: string; line: number; column: number };
+}
+
+// 结构化的错误：expect 断言失败为断言错误，其他异常为运行时错误
+export interface SpecError {
+  message: string;
+  assertError?: TestCaseAssertError;
+  runtimeError?: TestCaseRuntimeError;
+}
+
+// 去掉终端颜色控制字符
+export function stripAnsi(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+// 源码片段的行，例如 "> 12 |   expect(a).toBe(1);" 以及指示列位置的 "     |   ^"
+const SNIPPET_LINE_PATTERN = /^\s*(>\s*)?\d*\s+\|/;
+
+// 调用栈的行
+const STACK_LINE_PATTERN = /^\s+at /;
+
+// 拆分格式化后的错误信息：依次为错误信息、源码片段和调用栈
+export function splitErrorMessage(text: string): {
+  message: string;
+  snippet: string;
+  stack: string;
+} {
+  const lines = text.split("\n");
+  const snippetStart = lines.findIndex((line) => SNIPPET_LINE_PATTERN.test(line));
+  const stackStart = lines.findIndex((line) => STACK_LINE_PATTERN.test(line));
+  const messageEnd = Math.min(
+    ...[snippetStart, stackStart, lines.length].filter((index) => index >= 0),
+  );
+  const snippetEnd = stackStart > snippetStart ? stackStart : lines.length;
+  return {
+    message: lines.slice(0, messageEnd).join("\n").trim(),
+    snippet: snippetStart >= 0 ? lines.slice(snippetStart, snippetEnd).join("\n").trimEnd() : "",
+    stack: stackStart >= 0 ? lines.slice(stackStart).join("\n").trimEnd() : "",
+  };
+}
+
+// 判断是否为 expect 断言失败，例如 "Error: expect(received).toBe(expected)"
+// 或 "Error: Timed out 5000ms waiting for expect(locator).toBeVisible()"
+export function isAssertionError(message: string): boolean {
+  return /\bexpect(?:\.\w+)?\(/.test(message.split("\n")[0]);
+}
+
+// 从断言信息中提取期望值和实际值：优先取 "Expected: ..."、"Received string: ..." 这类行，
+// 没有时取 "- Expected / + Received" 对比中的内容，"-" 行只属于期望值，"+" 行只属于实际值
+export function parseExpectedActual(message: string): { expected: string; actual: string } {
+  const lines = message.split("\n");
+  const findValue = (name: string) => {
+    const pattern = new RegExp(`^\\s*${name}(?: [a-z ]+)?:\\s*(.*)$`);
+    for (const line of lines) {
+      const match = line.match(pattern);
+      if (match) {
+        return match[1].trim();
+      }
+    }
+    return null;
+  };
+  const expected = findValue("Expected");
+  const actual = findValue("Received");
+  if (expected !== null || actual !== null) {
+    return { expected: expected ?? "", actual: actual ?? "" };
+  }
+
+  const header = lines.findIndex((line) => line.startsWith("+ Received"));
+  if (header < 0) {
+    return { expected: "", actual: "" };
+  }
+  const expectedLines: string[] = [];
+  const actualLines: string[] = [];
+  // 对比内容从标题之后的空行开始，到下一个空行结束
+  let start = header + 1;
+  while (start < lines.length && lines[start].trim() === "") {
+    start++;
+  }
+  for (let index = start; index < lines.length && lines[index].trim() !== ""; index++) {
+    const line = lines[index];
+    if (line.startsWith("-")) {
+      expectedLines.push(line.substring(2));
+    } else if (line.startsWith("+")) {
+      actualLines.push(line.substring(2));
+    } else {
+      expectedLines.push(line.substring(2));
+      actualLines.push(line.substring(2));
+    }
+  }
+  return { expected: expectedLines.join("\n"), actual: actualLines.join("\n") };
+}
+
+// 将 Playwright 的错误转换为结构化的错误。断言错误带上期望值和实际值；
+// 运行时错误的 Summary 为错误信息的第一行，Detail 包含调用栈、出错位置和源码片段
+export function parsePlaywrightError(error: PlaywrightError): SpecError {
+  const parts = splitErrorMessage(stripAnsi(error.message ?? error.value ?? ""));
+  const message = parts.message;
+  if (isAssertionError(message)) {
+    const { expected, actual } = parseExpectedActual(message);
+    return { message, assertError: new TestCaseAssertError(expected, actual, message) };
+  }
+
+  // JSON 报告中拆分出的调用栈只有 "at" 行，与错误信息拼接为完整的调用栈
+  const stack = error.stack
+    ? stripAnsi(error.stack)
+    : [message, parts.stack].filter((part) => part !== "").join("\n");
+  const snippet = error.snippet ? stripAnsi(error.snippet) : parts.snippet;
+  const location = error.location
+    ? `${error.location.file}:${error.location.line}:${error.location.column}`
+    : "";
+  const detail = [
+    stack,
+    location ? `位置: ${location}` : "",
+    snippet,
+  ].filter((part) => part !== "").join("\n\n");
+  return {
+    message,
+    runtimeError: new TestCaseRuntimeError(message.split("\n")[0], detail),
+  };
+}
@@ -2,6 +2,7 @@ import * as fs from "fs";
 import * as path from "path";
 
 import Reporter from "testsolar-oss-sdk/src/testsolar_sdk/reporter";
+import { ResultType, TestResult } from "testsolar-oss-sdk/src/testsolar_sdk/model/testresult";
 import log from 'testsolar-oss-sdk/src/testsolar_sdk/logger';
 
 import {
@@ -10,8 +11,271 @@ import {
     generateCommands,
     groupTestCasesByPath,
     getTestcasePrefix,
-    createRunningTestResults
+    createRunningTestResults,
+    expandRegexSelectors,
+    isRegexSelector,
+    mergeSpecResults,
+    planRuns,
+    generateRunCommands,
+    getConcurrency,
+    runWithConcurrency,
+    Command,
+    RunPlan,
+    SpecResult,
 } from "./utils";
+import { listTestcaseNames } from "./parser";
+import { findConfigForPath, getPlaywrightConfigs } from "./config";
+import { getShardConfig, partitionSelectors } from "./shard";
+import {
+    buildLastFailedCommand,
+    buildSelectRerunCommand,
+    getFailedIdentifiers,
+    getRerunJsonName,
+    getRerunMode,
+    getRerunRounds,
+    mergeRerunResult,
+} from "./rerun";
+
+// 文件分组运行的选项，重跑失败用例时使用
+interface RunOptions {
+    // 替换生成的运行命令
+    buildCommand?: (run: RunPlan, command: Command) => Command;
+    // 上报前处理用例结果，返回 null 的结果不上报
+    mergeResult?: (result: TestResult) => TestResult | null;
+    // 是否上报运行中状态，默认上报
+    reportRunning?: boolean;
+}
+
+// 一次运行的计划和实际执行的命令
+interface ExecutedRun {
+    run: RunPlan;
+    command: Command;
+}
+
+// 处理并过滤用例结果，没有 mergeResult 时原样返回
+function applyMergeResult(results: TestResult[], options: RunOptions): TestResult[] {
+    const { mergeResult } = options;
+    if (!mergeResult) {
+        return results;
+    }
+    return results
+        .map(mergeResult)
+        .filter((result): result is TestResult => result !== null);
+}
+
+// 判断用例标识符是否属于某个文件分组
+function belongsToGroup(identifier: string, casePath: string): boolean {
+    return identifier === casePath || identifier.startsWith(`${casePath}?`);
+}
+
+// 实时上报运行过程中结束的用例，记录已上报的用例名称，最终上报时跳过这些用例
+function createStreamHandler(
+    reporter: Reporter,
+    testIdentifiers: string[],
+    options: RunOptions = {},
+) {
+    const streamed = new Set<string>();
+    let pending: Promise<void> = Promise.resolve();
+    const onResults = (specResults: Record<string, SpecResult[]>) => {
+        const results = applyMergeResult(
+            createTestResults(specResults, testIdentifiers, false),
+            options,
+        );
+        pending = pending.then(async () => {
+            for (const result of results) {
+                streamed.add(result.Test.Name);
+                await reporter.reportTestResult(result);
+            }
+        });
+    };
+    return { onResults, streamed, flush: () => pending };
+}
+
+// 由 Playwright 划分分片时，运行前无法知道哪些用例属于当前分片，不上报运行中状态，
+// 也不为没有结果的用例上报失败，避免覆盖其他分片已经上报的结果
+function shouldReportRunning(): boolean {
+    return getShardConfig()?.mode !== "playwright";
+}
+
+// 上报进程结束后解析出的用例结果，已经实时上报过的用例不再重复上报
+async function reportFinalResults(
+    reporter: Reporter,
+    results: TestResult[],
+    streamed: Set<string>,
+): Promise<void> {
+    for (const result of results) {
+        if (!streamed.has(result.Test.Name)) {
+            await reporter.reportTestResult(result);
+        }
+    }
+}
+
+// 按运行计划执行文件分组，最多同时运行 TESTSOLAR_TTP_CONCURRENCY 个 Playwright 进程，每次运行使用独立的
+// JSON 报告和 --output 目录。分组的所有运行结束后合并结果生成用例结果，并按分组顺序上报，保证上报顺序稳定。
+// 返回上报的用例结果和每次运行执行的命令
+async function runFileGroups(
+    projPath: string,
+    runs: RunPlan[],
+    reporter: Reporter,
+    attachmentsPath: string,
+    options: RunOptions = {},
+): Promise<{ results: TestResult[]; executed: ExecutedRun[] }> {
+    const casePaths = Array.from(new Set(runs.flatMap((run) => Object.keys(run.caseLists))));
+    log.info(`Planned ${runs.length} runs for ${casePaths.length} file groups`);
+
+    // 每个分组尚未结束的运行数量，以及合并后的结果和标识符
+    const remaining: Record<string, number> = {};
+    const groupResults: Record<string, Record<string, SpecResult[]>> = {};
+    const groupIdentifiers: Record<string, string[]> = {};
+    for (const casePath of casePaths) {
+        remaining[casePath] = 0;
+        groupResults[casePath] = {};
+        groupIdentifiers[casePath] = [];
+    }
+    for (const run of runs) {
+        for (const casePath of Object.keys(run.caseLists)) {
+            remaining[casePath]++;
+        }
+    }
+
+    const streamed = new Set<string>();
+    const reported: TestResult[] = [];
+    const executed: ExecutedRun[] = [];
+    let nextGroup = 0;
+    let reporting: Promise<void> = Promise.resolve();
+    // 按分组顺序上报所有运行都已结束的分组，前面的分组未结束时后面的分组等待
+    const reportFinishedGroups = () => {
+        reporting = reporting.then(async () => {
+            while (nextGroup < casePaths.length && remaining[casePaths[nextGroup]] === 0) {
+                const casePath = casePaths[nextGroup++];
+                const results = applyMergeResult(
+                    createTestResults(
+                        groupResults[casePath],
+                        groupIdentifiers[casePath],
+                        shouldReportRunning(),
+                    ),
+                    options,
+                );
+                reported.push(...results);
+                await reportFinalResults(reporter, results, streamed);
+            }
+        });
+        return reporting;
+    };
+
+    const tasks = runs.map((run) => async () => {
+        // 上报用例运行状态
+        if (options.reportRunning !== false && shouldReportRunning()) {
+            for (const [casePath, testcases] of Object.entries(run.caseLists)) {
+                createRunningTestResults(casePath, testcases, reporter);
+            }
+        }
+
+        // 执行命令并解析用例生成的 JSON 文件
+        const generated = generateRunCommands(run);
+        const command = options.buildCommand
+            ? options.buildCommand(run, generated.command)
+            : generated.command;
+        const testIdentifiers = generated.testIdentifiers;
+        executed.push({ run, command });
+        const stream = createStreamHandler(reporter, testIdentifiers, options);
+        const specResults = await executeCommands(
+            projPath,
+            command,
+            testIdentifiers,
+            run.jsonName,
+            attachmentsPath,
+            stream.onResults,
+        );
+        await stream.flush();
+        stream.streamed.forEach((name) => streamed.add(name));
+
+        // 合并运行的多个分组各自只取属于自己的标识符，结果中不属于该分组的用例不会匹配
+        for (const casePath of Object.keys(run.caseLists)) {
+            mergeSpecResults(groupResults[casePath], specResults);
+            groupIdentifiers[casePath].push(
+                ...testIdentifiers.filter((identifier) => belongsToGroup(identifier, casePath)),
+            );
+            remaining[casePath]--;
+        }
+        await reportFinishedGroups();
+    });
+
+    await runWithConcurrency(tasks, getConcurrency());
+    await reporting;
+    return { results: reported, executed };
+}
+
+// 重跑失败的用例，共 rounds 轮，每轮只运行上一轮之后仍然失败的用例，没有失败用例时提前结束。
+// 重跑的结果与之前的结果合并后上报：最终状态取最后一次运行，之前各轮的步骤作为历史保留。
+// 重跑与 Playwright 自身的重试（retries）相互独立，每轮运行中仍按配置重试
+async function rerunFailedCases(
+    projPath: string,
+    firstPass: { results: TestResult[]; executed: ExecutedRun[] },
+    reporter: Reporter,
+    attachmentsPath: string,
+    rounds: number,
+    configs: string[],
+): Promise<void> {
+    const mode = getRerunMode(projPath);
+    const latest = new Map(firstPass.results.map((result) => [result.Test.Name, result]));
+    let executed = firstPass.executed;
+
+    for (let round = 1; round <= rounds; round++) {
+        const failed = getFailedIdentifiers(Array.from(latest.values()));
+        if (failed.length === 0) {
+            log.info("No failed test cases to rerun");
+            return;
+        }
+        log.info(`Rerun round ${round}/${rounds} (${mode}): ${failed.length} failed test cases`);
+
+        // 只合并上一轮失败的用例，--last-failed 意外运行到的其他用例不上报
+        const mergeResult = (result: TestResult) => {
+            const previous = latest.get(result.Test.Name);
+            return previous && previous.ResultType === ResultType.FAILED
+                ? mergeRerunResult(previous, result, round)
+                : null;
+        };
+
+        let pass: { results: TestResult[]; executed: ExecutedRun[] };
+        if (mode === "lastfailed") {
+            // 重新执行包含失败用例的运行，运行目标不变，由 Playwright 只运行其中失败的用例
+            const previousCommands = new Map<string, Command>();
+            const runs: RunPlan[] = [];
+            for (const item of executed) {
+                const casePaths = Object.keys(item.run.caseLists);
+                if (!failed.some((identifier) => casePaths.some((casePath) => belongsToGroup(identifier, casePath)))) {
+                    continue;
+                }
+                const run = { ...item.run, jsonName: getRerunJsonName(item.run.jsonName, round) };
+                previousCommands.set(run.jsonName, item.command);
+                runs.push(run);
+            }
+            // 运行目标包含未失败的用例，只为失败的用例上报运行中状态
+            for (const [casePath, testcases] of Object.entries(groupTestCasesByPath(failed))) {
+                createRunningTestResults(casePath, testcases, reporter);
+            }
+            pass = await runFileGroups(projPath, runs, reporter, attachmentsPath, {
+                mergeResult,
+                reportRunning: false,
+                buildCommand: (run, command) =>
+                    buildLastFailedCommand(previousCommands.get(run.jsonName)!, command),
+            });
+        } else {
+            const runs = planRuns(groupTestCasesByPath(failed), configs).map((run) => ({
+                ...run,
+                jsonName: getRerunJsonName(run.jsonName, round),
+            }));
+            pass = await runFileGroups(projPath, runs, reporter, attachmentsPath, {
+                mergeResult,
+                buildCommand: (_run, command) => buildSelectRerunCommand(command),
+            });
+        }
+
+        pass.results.forEach((result) => latest.set(result.Test.Name, result));
+        executed = pass.executed;
+    }
+}
 
 export async function runTestCase(runParamFile: string): Promise<void> {
     log.info("Pipe file: ", runParamFile);
@@ -43,6 +307,9 @@ export async function runTestCase(runParamFile: string): Promise<void> {
     const testcasePrefix = getTestcasePrefix();
     const reporter = new Reporter(taskId, data.FileReportPath);
 
+    // 多配置（monorepo）时运行前读取一次配置文件列表，按用例路径找到所属的配置文件
+    const configs = getPlaywrightConfigs(projPath);
+
 
     // 检查是否运行所有测试用例
     const runAllCases = process.env.TESTSOLAR_TTP_RUN_ALL_CASES;
@@ -57,28 +324,30 @@ export async function runTestCase(runParamFile: string): Promise<void> {
         const { command, testIdentifiers } = generateCommands(
             "", // 空路径表示所有文件
             [], // 空数组表示所有测试
-            jsonName
+            jsonName,
+            findConfigForPath("", configs),
         );
         
         // 上报所有选择的测试用例为运行中状态
-        if (testSelectors.length > 0) {
+        if (testSelectors.length > 0 && shouldReportRunning()) {
             createRunningTestResults("", testSelectors, reporter);
         }
         
         // 执行命令并解析结果
+        const stream = createStreamHandler(reporter, testSelectors);
         const testResults = await executeCommands(
             projPath,
             command,
             testIdentifiers.length > 0 ? testIdentifiers : testSelectors,
             jsonName,
             attachmentsPath,
+            stream.onResults,
         );
+        await stream.flush();
         
         // 创建并上报测试结果
-        const results = createTestResults(testResults, testSelectors);
-        for (const result of results) {
-            await reporter.reportTestResult(result);
-        }
+        const results = createTestResults(testResults, testSelectors, shouldReportRunning());
+        await reportFinalResults(reporter, results, stream.streamed);
     } else {
         // 原有逻辑 - 按文件和测试用例执行
         // 新的 selector 列表
@@ -96,63 +365,81 @@ export async function runTestCase(runParamFile: string): Promise<void> {
             }
         });
 
+        // 正则选择器先列出用例，按用例名称展开为具体用例，与加载阶段的匹配结果一致
+        const expandedSelectors = newSelectors.some(isRegexSelector)
+            ? expandRegexSelectors(newSelectors, await listTestcaseNames(projPath))
+            : newSelectors;
+
+        // 按用例划分分片时，只运行分配给当前分片的选择器
+        const shard = getShardConfig();
+        const selectors =
+            shard && shard.mode === "cases"
+                ? partitionSelectors(expandedSelectors, shard)
+                : expandedSelectors;
+
         if (fileMode) {
             // fileMode: 直接运行文件，不解析具体测试用例
             log.info("TESTSOLAR_TTP_FILEMODE is set, running files directly");
             
             // 按照文件对用例进行分组，但在fileMode下每个文件运行所有测试
-            const caseLists = groupTestCasesByPath(newSelectors);
+            const caseLists = groupTestCasesByPath(selectors);
           
             // 对每个文件生成命令行
             for (const [casePath, testcases] of Object.entries(caseLists)) {
                 // 上报用例运行状态
-                createRunningTestResults(casePath, testcases, reporter);
+                if (shouldReportRunning()) {
+                    createRunningTestResults(casePath, testcases, reporter);
+                }
             
                 // 执行命令并解析用例生成的 JSON 文件
                 log.info(`当前进程ID: ${process.pid}`)
-                const jsonName = casePath.replace(/\//g, "_") + "_pid_" + process.pid + ".json";
+                const jsonName = casePath.replace(/[/:]/g, "_") + "_pid_" + process.pid + ".json";
                 // 在fileMode下，只运行文件，不指定具体测试用例
                 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-                const { command, testIdentifiers } = generateCommands(casePath, [], jsonName);
+                const { command, testIdentifiers } = generateCommands(
+                    casePath,
+                    [],
+                    jsonName,
+                    findConfigForPath(casePath, configs),
+                );
                 // 注意：在fileMode下，testIdentifiers不会被使用，但仍需要解构以保持函数接口一致性
+                const stream = createStreamHandler(reporter, [casePath]);
                 const testResults = await executeCommands(
                     projPath,
                     command,
                     [casePath], // 在fileMode下，使用文件路径作为标识符
                     jsonName,
                     attachmentsPath,
+                    stream.onResults,
                 );
+                await stream.flush();
                 
-                const results = createTestResults(testResults, [casePath]);
-                for (const result of results) {
-                    await reporter.reportTestResult(result);
-                }
+                const results = createTestResults(testResults, [casePath], shouldReportRunning());
+                await reportFinalResults(reporter, results, stream.streamed);
             }
         } else {
             // 按照文件对用例进行分组
-            const caseLists = groupTestCasesByPath(newSelectors);
+            const caseLists = groupTestCasesByPath(selectors);
           
-            // 对每个文件生成命令行
-            for (const [casePath, testcases] of Object.entries(caseLists)) {
-                // 上报用例运行状态
-                createRunningTestResults(casePath, testcases, reporter);
-            
-                // 执行命令并解析用例生成的 JSON 文件
-                log.info(`当前进程ID: ${process.pid}`)
-                const jsonName = casePath.replace(/\//g, "_") + "_pid_" + process.pid + ".json";
-                const { command, testIdentifiers } = generateCommands(casePath, testcases, jsonName);
-                const testResults = await executeCommands(
+            log.info(`当前进程ID: ${process.pid}`)
+            const firstPass = await runFileGroups(
+                projPath,
+                planRuns(caseLists, configs),
+                reporter,
+                attachmentsPath,
+            );
+
+            // 按配置重跑失败的用例
+            const rerunRounds = getRerunRounds();
+            if (rerunRounds > 0) {
+                await rerunFailedCases(
                     projPath,
-                    command,
-                    testIdentifiers,
-                    jsonName,
+                    firstPass,
+                    reporter,
                     attachmentsPath,
+                    rerunRounds,
+                    configs,
                 );
-                
-                const results = createTestResults(testResults, testIdentifiers);
-                for (const result of results) {
-                    await reporter.reportTestResult(result);
-                }
             }
         }
     }
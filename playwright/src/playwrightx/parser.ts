@@ -2,13 +2,32 @@ import * as process from "process";
 import * as fs from "fs";
 import * as path from "path";
 import {
+  Command,
+  createDuplicateLoadErrors,
+  createTimeoutMessage,
   executeCommand,
-  parseTestcase,
-  filterTestcases,
+  findFailedSpecFiles,
+  formatCommand,
+  getTimeoutMs,
+  parseTestcaseDetails,
+  selectTestcases,
+  ParsedTestcase,
   getTestcasePrefix,
   parsePlaywrightReport,
-  scanPlaywrightTestFiles,
+  scanPlaywrightTestFilesByConfig,
 } from "./utils";
+import { getPlaywrightConfigs } from "./config";
+import {
+  buildLoadCache,
+  computeConfigHash,
+  diffLoadCache,
+  getLoadCachePath,
+  hashFile,
+  readLoadCache,
+  writeLoadCache,
+} from "./cache";
+
+import { discoverTests } from "./discovery";
 
 import {
   LoadError,
@@ -20,6 +39,271 @@ import { TestCase } from "testsolar-oss-sdk/src/testsolar_sdk/model/test";
 import Reporter from "testsolar-oss-sdk/src/testsolar_sdk/reporter";
 
 
+// 扫描配置文件（相对于项目根目录）对应的用例文件，configFile 为空时扫描项目根目录
+function scanTestFiles(
+  projPath: string,
+  configFile: string | null,
+): ReturnType<typeof scanPlaywrightTestFilesByConfig> {
+  if (!configFile) {
+    return scanPlaywrightTestFilesByConfig(projPath);
+  }
+  return scanPlaywrightTestFilesByConfig(
+    path.join(projPath, path.dirname(configFile)),
+    path.join(projPath, configFile),
+  );
+}
+
+// 执行 npx playwright test --list 并解析用例，files 不为空时只加载指定的用例文件，configFile 不为空时通过 -c 指定配置文件
+async function listTestcases(
+  projPath: string,
+  filePath: string,
+  loadErrors: LoadError[],
+  files: string[] = [],
+  configFile: string | null = null,
+): Promise<{ testcases: ParsedTestcase[]; hasErrors: boolean }> {
+  // 执行命令获取output.json文件内容
+  const command: Command = {
+    argv: [
+      "npx",
+      "playwright",
+      "test",
+      ...(configFile ? ["-c", configFile] : []),
+      "--list",
+      "--reporter=json",
+      ...files,
+    ],
+    env: {},
+    stdoutFile: filePath,
+  };
+  log.info("Run Command: ", formatCommand(command));
+  // 默认不限制加载时间
+  const timeoutMs = getTimeoutMs("TESTSOLAR_TTP_LOADTIMEOUT");
+  const { stdout, stderr, timedOut } = await executeCommand(command, timeoutMs);
+  log.info("stdout:", stdout);
+  log.info("stderr:", stderr);
+
+  if (timedOut) {
+    const message = createTimeoutMessage(
+      "load",
+      formatCommand(command),
+      timeoutMs,
+      stdout,
+      stderr,
+    );
+    log.error(message);
+    loadErrors.push(new LoadError("playwright-load-timeout", message));
+    // 超时被结束时输出的 JSON 通常不完整，删除后不再按加载错误重复解析
+    fs.rmSync(filePath, { force: true });
+    return { testcases: [], hasErrors: true };
+  }
+
+  const fileContent = fs.readFileSync(filePath, "utf-8");
+  const testData = JSON.parse(fileContent);
+  return {
+    testcases: parseTestcaseDetails(projPath, testData),
+    hasErrors: (testData.errors || []).length > 0,
+  };
+}
+
+// 单次 --list 传入的用例文件路径总长度上限，超过后分批加载，避免超出命令行参数长度限制（Windows 为 8191 个字符）
+const MAX_LIST_FILES_LENGTH = 6000;
+
+// 将用例文件按路径总长度分批，每批至少包含一个文件
+export function batchListFiles(files: string[]): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+  for (const file of files) {
+    // 每个参数之间还有一个空格
+    const length = file.length + 1;
+    if (current.length > 0 && currentLength + length > MAX_LIST_FILES_LENGTH) {
+      batches.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push(file);
+    currentLength += length;
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+// 单个用例文件导入失败时 --list 不会返回任何用例，按报错信息隔离导入失败的文件后重新加载其余文件，
+// 被隔离的文件以文件为单位上报加载错误，其余文件较多时分批加载。files 为空时加载所有用例文件
+async function listTestcasesPartially(
+  projPath: string,
+  filePath: string,
+  loadErrors: LoadError[],
+  files: string[] = [],
+  configFile: string | null = null,
+): Promise<{ testcases: ParsedTestcase[]; hasErrors: boolean }> {
+  const listed = await listTestcases(projPath, filePath, loadErrors, files, configFile);
+  if (!listed.hasErrors || listed.testcases.length > 0 || !fs.existsSync(filePath)) {
+    return listed;
+  }
+
+  const candidates = (
+    files.length > 0 ? files : scanTestFiles(projPath, configFile).files
+  ).map((file) => path.resolve(projPath, file));
+  const failedFiles = findFailedSpecFiles(
+    fs.readFileSync(filePath, "utf-8"),
+    candidates,
+  );
+  if (Object.keys(failedFiles).length === 0) {
+    // 报错无法定位到具体用例文件（例如配置文件错误），交给调用方按原方式上报
+    return listed;
+  }
+
+  for (const [file, messages] of Object.entries(failedFiles)) {
+    loadErrors.push(
+      new LoadError(
+        path.relative(projPath, file).split(path.sep).join("/"),
+        `用例文件导入失败，已跳过该文件: ${messages.join("\n")}`,
+      ),
+    );
+  }
+  const remaining = candidates
+    .filter((file) => !(file in failedFiles))
+    .map((file) => path.relative(projPath, file).split(path.sep).join("/"));
+  log.info(
+    `Isolated ${Object.keys(failedFiles).length} failed files, listing ${remaining.length} remaining files`,
+  );
+  if (remaining.length === 0) {
+    return { testcases: [], hasErrors: true };
+  }
+
+  const testcases: ParsedTestcase[] = [];
+  for (const batch of batchListFiles(remaining)) {
+    const relisted = await listTestcases(projPath, filePath, loadErrors, batch, configFile);
+    testcases.push(...relisted.testcases);
+  }
+  return { testcases, hasErrors: true };
+}
+
+// 使用加载缓存：只对内容变化的用例文件执行 --list，其余文件的用例直接从缓存中合并
+async function listTestcasesWithCache(
+  projPath: string,
+  filePath: string,
+  loadErrors: LoadError[],
+  configFile: string | null = null,
+): Promise<ParsedTestcase[]> {
+  const cachePath = getLoadCachePath(projPath, configFile);
+  const configHash = computeConfigHash(projPath, configFile);
+  // 设置 TESTSOLAR_TTP_LOADCACHEREFRESH 时忽略已有缓存，全量加载后重新生成缓存
+  const refresh = process.env.TESTSOLAR_TTP_LOADCACHEREFRESH === "1";
+  const cache = refresh ? null : readLoadCache(cachePath, configHash);
+
+  const fileHashes: Record<string, string> = {};
+  for (const file of scanTestFiles(projPath, configFile).files) {
+    fileHashes[path.relative(projPath, file).split(path.sep).join("/")] =
+      hashFile(file);
+  }
+
+  if (!cache) {
+    log.info("No available load cache, listing all test cases");
+    const { testcases, hasErrors } = await listTestcasesPartially(
+      projPath,
+      filePath,
+      loadErrors,
+      [],
+      configFile,
+    );
+    // 加载出错时结果不完整，不写入缓存
+    if (!hasErrors) {
+      writeLoadCache(
+        cachePath,
+        buildLoadCache(projPath, configHash, fileHashes, testcases),
+      );
+    }
+    return testcases;
+  }
+
+  // 缓存中有、但扫描规则没有匹配到的文件同样参与对比
+  for (const file of Object.keys(cache.files)) {
+    if (!(file in fileHashes)) {
+      const hash = hashFile(path.join(projPath, file));
+      if (hash) {
+        fileHashes[file] = hash;
+      }
+    }
+  }
+
+  const { changed, unchanged } = diffLoadCache(cache, fileHashes);
+  log.info(
+    `Load cache: ${unchanged.length} unchanged files, ${changed.length} changed files`,
+  );
+
+  const listedByFile: Record<string, ParsedTestcase[]> = {};
+  let hasErrors = false;
+  if (changed.length > 0) {
+    const listed = await listTestcasesPartially(
+      projPath,
+      filePath,
+      loadErrors,
+      changed,
+      configFile,
+    );
+    hasErrors = listed.hasErrors;
+    for (const testcase of listed.testcases) {
+      // 文件参数按正则匹配路径，只保留变化的文件中的用例
+      if (changed.includes(testcase.path)) {
+        (listedByFile[testcase.path] ||= []).push(testcase);
+      }
+    }
+    if (hasErrors && listed.testcases.length === 0 && fs.existsSync(filePath)) {
+      loadErrors.push(...parsePlaywrightReport(fs.readFileSync(filePath, "utf-8")));
+    }
+  }
+
+  // 按文件顺序合并缓存和重新加载的用例
+  const testcases = Object.keys(fileHashes).flatMap((file) =>
+    changed.includes(file)
+      ? listedByFile[file] || []
+      : cache.files[file].testcases,
+  );
+
+  // 变化的文件加载出错时只缓存未变化的文件，下次重新加载变化的文件
+  const cachedHashes: Record<string, string> = {};
+  for (const file of hasErrors ? unchanged : Object.keys(fileHashes)) {
+    cachedHashes[file] = fileHashes[file];
+  }
+  writeLoadCache(
+    cachePath,
+    buildLoadCache(
+      projPath,
+      configHash,
+      cachedHashes,
+      testcases.filter((testcase) => testcase.path in cachedHashes),
+    ),
+  );
+  return testcases;
+}
+
+// 运行阶段列出所有配置文件中的用例名称，用于将正则选择器展开为具体用例。加载错误只记录日志，
+// 不影响能够列出的用例
+export async function listTestcaseNames(projPath: string): Promise<string[]> {
+  const filePath = path.join(projPath, `list_pid_${process.pid}.json`);
+  const loadErrors: LoadError[] = [];
+  const configs = getPlaywrightConfigs(projPath);
+  const names: string[] = [];
+  for (const configFile of configs.length > 0 ? configs : [null]) {
+    fs.rmSync(filePath, { force: true });
+    const { testcases } = await listTestcasesPartially(
+      projPath,
+      filePath,
+      loadErrors,
+      [],
+      configFile,
+    );
+    names.push(...testcases.map((testcase) => testcase.name));
+  }
+  fs.rmSync(filePath, { force: true });
+  loadErrors.forEach((error) => log.warn(`列出用例时出错: ${error.Name} ${error.Message}`));
+  return Array.from(new Set(names));
+}
+
 export async function collectTestCases(
   projPath: string,
   testSelectors: string[],
@@ -55,32 +339,112 @@ export async function collectTestCases(
 
     // 默认false
     const fileMode = process.env.TESTSOLAR_TTP_FILEMODE == "1";
+    // 静态解析模式："1" 始终静态解析用例文件，"fallback" 仅在 --list 未解析到用例时静态解析，默认不启用
+    const staticDiscovery = process.env.TESTSOLAR_TTP_STATICDISCOVERY || "0";
+    let staticFallback = false;
+
+    // 多配置（monorepo）时分别加载每个配置文件，未配置时只使用项目根目录的配置
+    const configs = getPlaywrightConfigs(projPath);
+    if (configs.length > 0) {
+      log.info(`Loading test cases from playwright configs: ${configs.join(", ")}`);
+    }
+    const configTargets: (string | null)[] = configs.length > 0 ? configs : [null];
+    const scanAllTestFiles = () =>
+      configTargets.flatMap((configFile) => {
+        const { files, loadErrors } = scanTestFiles(projPath, configFile);
+        result.LoadErrors.push(...loadErrors);
+        return files;
+      });
+    // 静态解析每个配置文件匹配的用例文件，多 project 时用例名称与 --list 一样带 project 前缀
+    const discoverAllTests = () =>
+      configTargets.flatMap((configFile) => {
+        const { files, loadErrors, projects } = scanTestFiles(projPath, configFile);
+        result.LoadErrors.push(...loadErrors);
+        return discoverTests(projPath, files, projects);
+      });
 
     let loadCaseResult;
-    if (fileMode) {
+    let parsedTestcases: ParsedTestcase[] = [];
+    // 用例名称 -> 用例属性
+    const caseAttributes: Record<string, Record<string, string>> = {};
+    if (staticDiscovery === "1") {
+      log.info("TESTSOLAR_TTP_STATICDISCOVERY is set, parsing test files statically");
+      parsedTestcases = discoverAllTests();
+    } else if (fileMode) {
       log.info("TESTSOLAR_TTP_FILEMODE is set, using file paths directly without parsing");
-      // 扫描Playwright测试文件
-      loadCaseResult = scanPlaywrightTestFiles(projPath);
+      // 扫描Playwright测试文件，按 playwright 配置中的 testDir/testMatch/testIgnore 匹配
+      loadCaseResult = Array.from(new Set(scanAllTestFiles()));
     } else {
       // 如果环境变量未设置，则按原来的方式解析用例
-      // 执行命令获取output.json文件内容
-      const command = `npx playwright test --list --reporter=json > ${filePath}`;
-      log.info("Run Command: ", command);
-      const { stdout, stderr } = await executeCommand(command);
-      log.info("stdout:", stdout);
-      log.info("stderr:", stderr);
-
-      //TODO 解析output.json文件内容, 待完善，重跑用例加上数据驱动
-      const fileContent = fs.readFileSync(filePath, "utf-8");
-      const testData = JSON.parse(fileContent);
+      // 默认不启用加载缓存
+      const useLoadCache = process.env.TESTSOLAR_TTP_LOADCACHE === "1";
+
+      //TODO 解析output.json文件内容, 待完善，重跑用例
+      try {
+        // 解析所有用例
+        for (const configFile of configTargets) {
+          if (configFile) {
+            // 避免读取到上一个配置文件的加载结果
+            fs.rmSync(filePath, { force: true });
+          }
+          const testcases = useLoadCache
+            ? await listTestcasesWithCache(projPath, filePath, result.LoadErrors, configFile)
+            : (
+                await listTestcasesPartially(
+                  projPath,
+                  filePath,
+                  result.LoadErrors,
+                  [],
+                  configFile,
+                )
+              ).testcases;
+          if (configFile) {
+            // 记录用例所属的配置文件，多配置时每个配置文件未加载到用例都单独上报错误
+            testcases.forEach((testcase) => {
+              testcase.attributes.config = configFile;
+            });
+            if (testcases.length === 0 && fs.existsSync(filePath)) {
+              result.LoadErrors.push(
+                ...parsePlaywrightReport(fs.readFileSync(filePath, "utf-8")),
+              );
+            }
+          }
+          parsedTestcases.push(...testcases);
+        }
+      } catch (error) {
+        if (staticDiscovery !== "fallback") {
+          throw error;
+        }
+        log.error(`Parse ${filePath} failed: ${(error as Error).message}`);
+      }
 
-      // 解析所有用例
-      loadCaseResult = parseTestcase(projPath, testData);
+      // --list 无法运行（例如浏览器或配置文件导入失败）时，回退到静态解析
+      if (parsedTestcases.length === 0 && staticDiscovery === "fallback") {
+        log.info("No test cases listed by playwright, parsing test files statically");
+        parsedTestcases = discoverAllTests();
+        staticFallback = true;
+      }
+    }
+    if (!loadCaseResult) {
+      // 名称重复的用例已追加位置后缀，上报加载错误提示按原名称选择存在歧义
+      result.LoadErrors.push(...createDuplicateLoadErrors(parsedTestcases));
+      parsedTestcases.forEach((testcase) => {
+        caseAttributes[testcase.name] = testcase.attributes;
+      });
+      loadCaseResult = Array.from(
+        new Set(parsedTestcases.map((testcase) => testcase.name)),
+      );
     }
     log.info("PlayWright testtool parse all testcases: \n", loadCaseResult);
 
-    // 如果用例为空，则通过解析json来获取错误信息
-    if (loadCaseResult.length === 0 && !fileMode) {
+    // 如果用例为空或回退到了静态解析，则通过解析json来获取错误信息
+    if (
+      (loadCaseResult.length === 0 || staticFallback) &&
+      configs.length === 0 &&
+      !fileMode &&
+      staticDiscovery !== "1" &&
+      fs.existsSync(filePath)
+    ) {
       const fileContent = fs.readFileSync(filePath, "utf-8");
       const errors = parsePlaywrightReport(fileContent);
       result.LoadErrors.push(...errors); // 使用LoadResult中定义的属性名
@@ -94,11 +458,11 @@ export async function collectTestCases(
         // 如果 testSelectors 只包含一个 "."，则直接返回 loadCaseResult
         filterResult = loadCaseResult;
       } else {
-        // 如果 testSelectors 不为空且不只是 "."，则调用 filterTestcases 函数
-        filterResult = await filterTestcases(
+        // 如果 testSelectors 不为空且不只是 "."，则按选择器（包括标签选择器）过滤
+        filterResult = await selectTestcases(
           testSelectors,
           loadCaseResult,
-          false,
+          parsedTestcases,
         );
       }
     } else {
@@ -112,13 +476,16 @@ export async function collectTestCases(
     // 提取用例数据
     filterResult.forEach((filteredTestCase: string) => {
       let test;
-      if (fileMode) {
+      if (fileMode && staticDiscovery !== "1") {
         // 去掉前缀 projectPath，获取相对路径
         const relativePath = path.relative(projPath, filteredTestCase);
         test = new TestCase(`${testcasePrefix}${relativePath}`, {});
       } else {
         const [path, descAndName] = filteredTestCase.split("?");
-        test = new TestCase(`${testcasePrefix}${path}?${descAndName}`, {});
+        test = new TestCase(
+          `${testcasePrefix}${path}?${descAndName}`,
+          caseAttributes[filteredTestCase] || {},
+        );
       }
       result.Tests.push(test);
     });
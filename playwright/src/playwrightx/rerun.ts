@@ -0,0 +1,132 @@
+import * as fs from "fs";
+
+import { TestCase } from "testsolar-oss-sdk/src/testsolar_sdk/model/test";
+import {
+  ResultType,
+  TestCaseStep,
+  TestResult,
+} from "testsolar-oss-sdk/src/testsolar_sdk/model/testresult";
+import log from 'testsolar-oss-sdk/src/testsolar_sdk/logger';
+
+import { Command, getTestcasePrefix } from "./utils";
+
+// 重跑方式：select 按失败用例的名称精确选择，lastfailed 通过 --last-failed 由 Playwright 选择上一次运行失败的用例
+export type RerunMode = "select" | "lastfailed";
+
+// 读取重跑失败用例的轮数 TESTSOLAR_TTP_RERUNFAILED，默认为 0，即不重跑
+export function getRerunRounds(): number {
+  const raw = process.env.TESTSOLAR_TTP_RERUNFAILED || "0";
+  const rounds = Number(raw);
+  if (!Number.isInteger(rounds) || rounds < 0) {
+    log.warn(`重跑轮数无效，不重跑失败用例: rerunFailed=${raw}`);
+    return 0;
+  }
+  return rounds;
+}
+
+// --last-failed 从 Playwright 1.44 开始支持
+const LAST_FAILED_MIN_VERSION = [1, 44];
+
+// 读取项目中安装的 @playwright/test 版本，无法读取时返回 null
+export function getPlaywrightVersion(projPath: string): string | null {
+  try {
+    const packageJson = require.resolve("@playwright/test/package.json", { paths: [projPath] });
+    return JSON.parse(fs.readFileSync(packageJson, "utf-8")).version ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// 判断 Playwright 版本是否支持 --last-failed，版本未知时按不支持处理
+export function supportsLastFailed(version: string | null): boolean {
+  if (!version) {
+    return false;
+  }
+  const [major, minor] = version.split(".").map((part) => parseInt(part, 10));
+  const [minMajor, minMinor] = LAST_FAILED_MIN_VERSION;
+  return major > minMajor || (major === minMajor && minor >= minMinor);
+}
+
+// 读取重跑方式 TESTSOLAR_TTP_RERUNMODE，默认为 select。项目中的 Playwright 版本不支持 --last-failed 时
+// 改为按名称重跑，避免旧版本报 "unknown option" 错误
+export function getRerunMode(projPath: string): RerunMode {
+  if (process.env.TESTSOLAR_TTP_RERUNMODE !== "lastfailed") {
+    return "select";
+  }
+  const version = getPlaywrightVersion(projPath);
+  if (!supportsLastFailed(version)) {
+    log.warn(
+      `--last-failed 需要 Playwright ${LAST_FAILED_MIN_VERSION.join(".")} 及以上版本，` +
+        `当前版本为 ${version ?? "未知"}，改为按名称重跑失败用例`,
+    );
+    return "select";
+  }
+  return "lastfailed";
+}
+
+// 收集失败用例的名称，去掉用例前缀并解码用例名称部分，与运行时的选择器格式一致
+export function getFailedIdentifiers(results: TestResult[]): string[] {
+  const casePrefix = getTestcasePrefix();
+  return results
+    .filter((result) => result.ResultType === ResultType.FAILED)
+    .map((result) => {
+      const name =
+        casePrefix && result.Test.Name.startsWith(casePrefix)
+          ? result.Test.Name.slice(casePrefix.length)
+          : result.Test.Name;
+      const index = name.indexOf("?");
+      return index === -1
+        ? name
+        : `${name.substring(0, index)}?${decodeURIComponent(name.substring(index + 1))}`;
+    });
+}
+
+// 每轮重跑使用独立的 JSON 报告文件
+export function getRerunJsonName(jsonName: string, round: number): string {
+  return `rerun${round}_${jsonName}`;
+}
+
+// 按名称重跑时去掉 --shard 参数：失败用例已经属于当前分片，只在它们之中再次分片会漏掉用例
+export function buildSelectRerunCommand(command: Command): Command {
+  return { ...command, argv: command.argv.filter((arg) => !arg.startsWith("--shard=")) };
+}
+
+// 按 --last-failed 重跑：运行目标与上一次运行相同，并复用上一次运行的 --output 目录，
+// Playwright 从该目录下的 .last-run.json 读取失败的用例
+export function buildLastFailedCommand(previous: Command, command: Command): Command {
+  const output = previous.argv.find((arg) => arg.startsWith("--output="));
+  const argv = command.argv
+    .filter((arg) => arg !== "--last-failed")
+    .map((arg) => (output && arg.startsWith("--output=") ? output : arg));
+  return { ...command, argv: [...argv, "--last-failed"] };
+}
+
+// 步骤名称加上运行轮次 "Pass n"，与 Playwright 自身的重试 "Retry #n" 区分
+function labelSteps(steps: TestCaseStep[], pass: number): TestCaseStep[] {
+  return steps.map((step) => {
+    const title = step.Title && step.Title !== "Step title" ? `Pass ${pass}: ${step.Title}` : `Pass ${pass}`;
+    return new TestCaseStep(step.StartTime, step.EndTime, title, step.ResultType, step.Logs);
+  });
+}
+
+// 合并第 round 轮重跑的结果：状态、信息和属性取重跑的结果，之前各轮的步骤作为历史保留在前面，
+// 用例属性 reruns 记录重跑的轮数
+export function mergeRerunResult(
+  previous: TestResult,
+  rerun: TestResult,
+  round: number,
+): TestResult {
+  const history = round === 1 ? labelSteps(previous.Steps, 1) : previous.Steps;
+  const test = new TestCase(rerun.Test.Name, {
+    ...rerun.Test.Attributes,
+    reruns: String(round),
+  });
+  return new TestResult(
+    test,
+    previous.StartTime,
+    rerun.EndTime,
+    rerun.ResultType,
+    rerun.Message,
+    [...history, ...labelSteps(rerun.Steps, round + 1)],
+  );
+}
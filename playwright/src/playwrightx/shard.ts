@@ -0,0 +1,71 @@
+import * as path from "path";
+import log from 'testsolar-oss-sdk/src/testsolar_sdk/logger';
+
+// 分片方式：playwright 通过 --shard 由 Playwright 划分用例，cases 按选择的用例均衡划分
+export type ShardMode = "playwright" | "cases";
+
+// 当前 agent 负责的分片，index 从 1 开始
+export interface ShardConfig {
+  index: number;
+  total: number;
+  mode: ShardMode;
+}
+
+// blob 报告的保存目录，拷贝到附件目录后可以用 npx playwright merge-reports 合并各分片的报告
+const BLOB_REPORT_DIR = "blob-report";
+
+// 读取分片配置：TESTSOLAR_TTP_SHARDINDEX（从 1 开始）和 TESTSOLAR_TTP_SHARDTOTAL，
+// 分片方式由 TESTSOLAR_TTP_SHARDMODE 指定，默认为 playwright。未配置、只有一个分片或配置无效时返回 null
+export function getShardConfig(): ShardConfig | null {
+  const rawIndex = process.env.TESTSOLAR_TTP_SHARDINDEX || "";
+  const rawTotal = process.env.TESTSOLAR_TTP_SHARDTOTAL || "";
+  if (rawIndex === "" && rawTotal === "") {
+    return null;
+  }
+  const index = Number(rawIndex);
+  const total = Number(rawTotal);
+  if (!Number.isInteger(index) || !Number.isInteger(total) || index < 1 || index > total) {
+    log.warn(`分片配置无效，不分片运行: shardIndex=${rawIndex}, shardTotal=${rawTotal}`);
+    return null;
+  }
+  if (total === 1) {
+    return null;
+  }
+  const mode = process.env.TESTSOLAR_TTP_SHARDMODE === "cases" ? "cases" : "playwright";
+  return { index, total, mode };
+}
+
+// 按选择的用例均衡划分分片：排除选择器在所有分片中保留，其余选择器排序后切分为数量相差不超过 1 的连续区间，
+// 同一文件的用例尽量落在同一分片中。各 agent 拿到相同的选择器时得到互不重叠的划分
+export function partitionSelectors(selectors: string[], shard: ShardConfig): string[] {
+  const excludes = selectors.filter((selector) => selector.startsWith("!"));
+  const includes = Array.from(
+    new Set(selectors.filter((selector) => !selector.startsWith("!"))),
+  ).sort();
+  if (includes.length === 0) {
+    // 只有排除选择器时无法按用例划分，由第一个分片运行
+    return shard.index === 1 ? selectors : [];
+  }
+  const size = Math.floor(includes.length / shard.total);
+  const remainder = includes.length % shard.total;
+  // 前 remainder 个分片各多分配一条
+  const start = (shard.index - 1) * size + Math.min(shard.index - 1, remainder);
+  const end = start + size + (shard.index <= remainder ? 1 : 0);
+  const selected = includes.slice(start, end);
+  log.info(
+    `Shard ${shard.index}/${shard.total} selected ${selected.length} of ${includes.length} selectors`,
+  );
+  // 没有分配到用例的分片不运行，不能只保留排除选择器，否则会从全部用例中排除后运行
+  return selected.length > 0 ? [...selected, ...excludes] : [];
+}
+
+// 生成 Playwright 的 --shard 参数，只有按 playwright 方式分片时需要
+export function getShardArgs(shard: ShardConfig | null): string[] {
+  return shard && shard.mode === "playwright" ? [`--shard=${shard.index}/${shard.total}`] : [];
+}
+
+// 每次运行的 blob 报告文件，文件名带上分片序号和 JSON 报告的名称，避免多次运行互相覆盖
+export function getBlobFileName(jsonName: string, shard: ShardConfig): string {
+  const base = path.basename(jsonName).replace(/\.json$/, "");
+  return path.join(BLOB_REPORT_DIR, `report-${shard.index}-of-${shard.total}-${base}.zip`);
+}
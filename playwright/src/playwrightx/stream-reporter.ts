@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import * as path from "path";
+import type {
+  FullConfig,
+  Reporter,
+  Suite,
+  TestCase,
+  TestError,
+  TestResult,
+  TestStep,
+} from "@playwright/test/reporter";
+
+// 注入到 Playwright 中的 reporter，每条用例结束时将结果追加写入 TESTSOLAR_TTP_STREAMFILE 指定的文件，
+// 每行是一个与 JSON reporter 格式一致的报告片段，运行端边运行边解析并上报结果。
+// 该文件在 Playwright 进程中加载，不依赖 testsolar SDK 和本工具的其他模块
+
+// 将用例的 stdout/stderr 输出转换为 JSON reporter 中的格式
+function toOutputs(chunks: (string | Buffer)[]): { text: string }[] {
+  return chunks.map((chunk) => ({ text: chunk.toString() }));
+}
+
+// 获取用例所在的 describe 层级，不包括 root、project 和文件级 suite
+function getDescribeTitles(test: TestCase): string[] {
+  const titles: string[] = [];
+  for (let suite: Suite | undefined = test.parent; suite; suite = suite.parent) {
+    if (suite.type === "describe") {
+      titles.unshift(suite.title);
+    }
+  }
+  return titles;
+}
+
+// JSON 报告中的 suite 结构
+interface JsonSuite {
+  title: string;
+  file: string;
+  specs: unknown[];
+  suites: JsonSuite[];
+}
+
+// 按 describe 层级将 spec 嵌套在 suite 中，最外层为文件级 suite，与 JSON reporter 的结构保持一致
+function wrapInSuites(file: string, describes: string[], spec: unknown): JsonSuite {
+  const titles = [file, ...describes];
+  let suite: JsonSuite = { title: titles[titles.length - 1], file, specs: [spec], suites: [] };
+  for (let index = titles.length - 2; index >= 0; index--) {
+    suite = { title: titles[index], file, specs: [], suites: [suite] };
+  }
+  return suite;
+}
+
+// 转换错误信息，抛出的不是 Error 时使用其字符串值作为错误信息。
+// 与 JSON 报告不同，源码片段和调用栈不拼接到 message 中，分别记录在 snippet 和 stack 中
+function toError(error: TestError) {
+  return {
+    message: error.message ?? error.value ?? "",
+    stack: error.stack,
+    location: error.location,
+    snippet: error.snippet,
+  };
+}
+
+// 判断是否为用例的最后一次执行：通过、跳过或已用完重试次数时不会再重试
+function isFinalAttempt(test: TestCase, result: TestResult): boolean {
+  return (
+    result.status === "skipped" ||
+    result.status === test.expectedStatus ||
+    result.retry >= test.retries
+  );
+}
+
+// JSON 报告中的步骤结构，额外记录开始时间
+interface JsonStep {
+  title: string;
+  duration: number;
+  startTime: string;
+  error?: TestError;
+  steps?: JsonStep[];
+}
+
+// 转换 test.step() 的步骤，与 JSON reporter 一样只保留 test.step 类别的步骤
+function toJsonSteps(steps: TestStep[]): JsonStep[] | undefined {
+  const testSteps = steps.filter((step) => step.category === "test.step");
+  if (testSteps.length === 0) {
+    return undefined;
+  }
+  return testSteps.map((step) => ({
+    title: step.title,
+    duration: step.duration,
+    startTime: step.startTime.toISOString(),
+    error: step.error,
+    steps: toJsonSteps(step.steps),
+  }));
+}
+
+// 转换单次执行的结果
+function toJsonResult(result: TestResult) {
+  return {
+    retry: result.retry,
+    startTime: result.startTime.toISOString(),
+    duration: result.duration,
+    status: result.status,
+    error: result.error ? toError(result.error) : undefined,
+    errors: result.errors.map(toError),
+    stdout: toOutputs(result.stdout),
+    stderr: toOutputs(result.stderr),
+    // 与 JSON reporter 一样，附件的 body 以 base64 记录
+    attachments: result.attachments.map((attachment) => ({
+      name: attachment.name,
+      contentType: attachment.contentType,
+      path: attachment.path,
+      body: attachment.body?.toString("base64"),
+    })),
+    steps: toJsonSteps(result.steps),
+  };
+}
+
+class StreamReporter implements Reporter {
+  private rootDir = "";
+  private projects: { name: string }[] = [];
+  private readonly streamFile = process.env.TESTSOLAR_TTP_STREAMFILE || "";
+
+  onBegin(config: FullConfig): void {
+    this.rootDir = config.rootDir;
+    this.projects = config.projects.map((project) => ({ name: project.name }));
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    if (!this.streamFile || !isFinalAttempt(test, result)) {
+      return;
+    }
+    const file = path.relative(this.rootDir, test.location.file).split(path.sep).join("/");
+    const projectName = test.parent.project()?.name || "";
+    const spec = {
+      title: test.title,
+      file,
+      line: test.location.line,
+      column: test.location.column,
+      tests: [
+        {
+          annotations: test.annotations,
+          projectId: projectName,
+          projectName,
+          expectedStatus: test.expectedStatus,
+          timeout: test.timeout,
+          // 最后一次执行结束时带上之前每次重试的结果和用例结论，与 JSON reporter 一致
+          status: test.outcome(),
+          results: test.results.map(toJsonResult),
+        },
+      ],
+    };
+
+    const report = {
+      config: { rootDir: this.rootDir, projects: this.projects },
+      suites: [wrapInSuites(file, getDescribeTitles(test), spec)],
+    };
+    try {
+      fs.appendFileSync(this.streamFile, `${JSON.stringify(report)}\n`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`写入用例结果 ${this.streamFile} 失败: ${message}`);
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+export default StreamReporter;
@@ -0,0 +1,77 @@
+import * as fs from "fs";
+import * as path from "path";
+import log from 'testsolar-oss-sdk/src/testsolar_sdk/logger';
+
+// 注入 Playwright 的实时结果 reporter，不带扩展名，编译后由 Playwright 按 require 规则解析为 stream-reporter.js
+export const STREAM_REPORTER_PATH = path.join(__dirname, "stream-reporter");
+
+// 读取结果文件的间隔
+const STREAM_POLL_INTERVAL_MS = 500;
+
+// 是否实时上报用例结果，默认关闭，TESTSOLAR_TTP_STREAMRESULTS 为 "1" 时开启
+export function isStreamResultsEnabled(): boolean {
+  return process.env.TESTSOLAR_TTP_STREAMRESULTS === "1";
+}
+
+// 实时结果文件名，与 JSON 报告文件放在一起
+export function getStreamFileName(jsonName: string): string {
+  return jsonName.replace(/(\.json)?$/, ".stream.jsonl");
+}
+
+// 读取结果文件 offset 之后新增的完整行，返回读取到的行和新的读取位置，不完整的最后一行留到下次读取
+export function readStreamLines(
+  filePath: string,
+  offset: number,
+): { lines: string[]; offset: number } {
+  if (!fs.existsSync(filePath)) {
+    return { lines: [], offset };
+  }
+  try {
+    const size = fs.statSync(filePath).size;
+    if (size <= offset) {
+      return { lines: [], offset };
+    }
+    const buffer = Buffer.alloc(size - offset);
+    const fd = fs.openSync(filePath, "r");
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+    const end = buffer.lastIndexOf("\n");
+    if (end < 0) {
+      return { lines: [], offset };
+    }
+    const lines = buffer
+      .subarray(0, end)
+      .toString("utf-8")
+      .split("\n")
+      .filter((line) => line.trim() !== "");
+    return { lines, offset: offset + end + 1 };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log.error(`读取实时结果文件 ${filePath} 失败: ${message}`);
+    return { lines: [], offset };
+  }
+}
+
+// 监听 reporter 逐行追加写入的结果文件，每读到完整的一行调用一次 onLine。
+// 返回停止监听的函数，停止时会读取剩余的内容
+export function watchStreamFile(
+  filePath: string,
+  onLine: (line: string) => void,
+): () => void {
+  // 清理上一次运行残留的结果文件
+  fs.rmSync(filePath, { force: true });
+  let offset = 0;
+  const poll = () => {
+    const read = readStreamLines(filePath, offset);
+    offset = read.offset;
+    read.lines.forEach(onLine);
+  };
+  const timer = setInterval(poll, STREAM_POLL_INTERVAL_MS);
+  return () => {
+    clearInterval(timer);
+    poll();
+  };
+}
@@ -1,10 +1,10 @@
 import * as process from "process";
 import * as child_process from "child_process";
-import * as util from "util";
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
 import { createHash } from 'crypto';
+import { minimatch } from "minimatch";
 import { TestCase } from "testsolar-oss-sdk/src/testsolar_sdk/model/test";
 import log from 'testsolar-oss-sdk/src/testsolar_sdk/logger';
 import {
@@ -13,7 +13,6 @@ import {
   TestCaseLog,
   LogLevel,
   ResultType,
-  AttachmentType,
   Attachment,
 } from "testsolar-oss-sdk/src/testsolar_sdk/model/testresult";
 
@@ -21,10 +20,23 @@ import Reporter from "testsolar-oss-sdk/src/testsolar_sdk/reporter";
 import {
   LoadError,
 } from "testsolar-oss-sdk/src/testsolar_sdk/model/load";
-
-const exec = util.promisify(child_process.exec);
-
-interface ResultError {
+import {
+  findConfigForPath,
+  isTestFileForProject,
+  ProjectMatchConfig,
+  resolveProjectConfigs,
+} from "./config";
+import { getBlobFileName, getShardArgs, getShardConfig } from "./shard";
+import {
+  STREAM_REPORTER_PATH,
+  getStreamFileName,
+  isStreamResultsEnabled,
+  watchStreamFile,
+} from "./stream";
+import { PlaywrightError, SpecError, parsePlaywrightError } from "./errors";
+import { PlaywrightAttachment, getAttachmentDir, saveAttachments } from "./attachments";
+
+interface ResultError extends PlaywrightError {
   message: string;
 }
 
@@ -32,13 +44,24 @@ interface OutInfo {
   text: string
 }
 
-interface AttachmentInfo {
-  name: string;
-  path: string;
-  contentType: string;
+// test.step() 抛出的错误，抛出的不是 Error 时只有 value
+interface StepError {
+  message?: string;
+  stack?: string;
+  value?: string;
+}
+
+// test.step() 的执行情况，JSON 报告中没有 startTime，实时上报的结果中带有 startTime
+interface ResultStep {
+  title: string;
+  duration: number;
+  startTime?: string;
+  error?: StepError;
+  steps?: ResultStep[];
 }
 
 interface Result {
+  retry?: number;
   startTime: string;
   duration: number;
   status: string;
@@ -46,23 +69,33 @@ interface Result {
   errors?: ResultError[];
   stdout?: OutInfo[];
   stderr?: OutInfo[];
-  attachments?: AttachmentInfo[];
+  attachments?: PlaywrightAttachment[];
+  steps?: ResultStep[];
 }
 
+// Playwright 注解，例如 { type: "owner", description: "alice" }
 interface Annotations {
-  owner: string;
-  description: string;
+  type: string;
+  description?: string;
 }
 
 interface Test {
   annotations: Annotations[] | null;
   projectId: string;
+  projectName?: string;
+  expectedStatus?: string;
+  timeout?: number;
+  // Playwright 的用例结论：expected、unexpected、flaky 或 skipped
+  status?: string;
   results: Result[];
 }
 
 interface Spec {
   title: string;
   file: string;
+  line?: number;
+  column?: number;
+  tags?: string[];
   tests?: Test[];
 }
 
@@ -73,9 +106,16 @@ interface Suite {
   specs: Spec[];
 }
 
+interface Project {
+  id?: string;
+  name: string;
+  retries?: number;
+}
+
 interface Data {
   config: {
     rootDir: string;
+    projects?: Project[];
   };
   suites: Suite[];
 }
@@ -104,7 +144,31 @@ interface JsonData {
   errors: Error[];
 }
 
-interface SpecResult {
+// test.step() 的执行结果，时间单位与用例结果一样为秒，error 为空表示步骤成功
+export interface SpecStep {
+  title: string;
+  startTime: number;
+  endTime: number;
+  error: string;
+  steps: SpecStep[];
+}
+
+// 用例单次执行（包括每次重试）的结果
+export interface SpecAttempt {
+  retry: number;
+  result: string;
+  duration: number;
+  startTime: number;
+  endTime: number;
+  message: string;
+  content: string;
+  attachments: Attachment[];
+  steps: SpecStep[];
+  // 每个错误转换后的结构化错误
+  errors: SpecError[];
+}
+
+export interface SpecResult {
   projectID: string | null;
   result: string;
   duration: number;
@@ -114,7 +178,14 @@ interface SpecResult {
   content: string;
   owner: string | null;
   description: string | null;
+  attributes?: Record<string, string>;
+  line?: number;
+  column?: number;
   attachments?: Attachment[];
+  // 每次执行的结果，有重试时包含多条
+  attempts?: SpecAttempt[];
+  // Playwright 的用例结论：expected、unexpected、flaky 或 skipped
+  outcome?: string;
 }
 
 // 定义JSON数据的类型接口
@@ -159,24 +230,272 @@ export function encodeQueryParams(url: string): string {
   return `${baseUrl}?${encodedQueryString}`;
 }
 
-// 执行命令并返回结果
-export async function executeCommand(
-  command: string,
-): Promise<{ stdout: string; stderr: string; error?: Error }> {
+// 待执行的命令，argv 不经过 shell 直接传给 spawn，因此参数中的引号、$、反引号等字符都不需要转义。
+// env 为额外设置的环境变量，stdoutFile 不为空时标准输出写入该文件
+export interface Command {
+  argv: string[];
+  env: Record<string, string>;
+  stdoutFile?: string;
+}
+
+// 按 shell 规则拆分参数字符串，支持单引号、双引号和反斜杠转义，不做变量替换和命令替换，
+// 例如 `--grep "a b" --project='x'` 拆分为 ["--grep", "a b", "--project=x"]
+export function splitArgs(args: string): string[] {
+  const result: string[] = [];
+  let current = "";
+  let hasToken = false;
+  let quote: "'" | '"' | null = null;
+  for (let i = 0; i < args.length; i++) {
+    const char = args[i];
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === "\\" && i + 1 < args.length && '"\\$`'.includes(args[i + 1])) {
+        current += args[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      hasToken = true;
+    } else if (char === "\\" && i + 1 < args.length) {
+      current += args[++i];
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        result.push(current);
+        current = "";
+        hasToken = false;
+      }
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+  if (quote !== null) {
+    log.error(`参数中的引号未闭合，按原样使用剩余内容: ${args}`);
+  }
+  if (hasToken) {
+    result.push(current);
+  }
+  return result;
+}
+
+// 为日志生成可以直接复制到 shell 中执行的命令
+export function formatCommand(command: Command): string {
+  const quote = (arg: string) =>
+    /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+  const parts = [
+    ...Object.entries(command.env).map(([key, value]) => `${key}=${quote(value)}`),
+    ...command.argv.map(quote),
+  ];
+  if (command.stdoutFile) {
+    parts.push(">", quote(command.stdoutFile));
+  }
+  return parts.join(" ");
+}
+
+// cmd 的特殊字符，其中 "%" 不转义时 "%VAR%" 会被展开为环境变量
+const WINDOWS_META_CHARS = /([()\][%!^"`<>&|;, *?])/g;
+
+// 按 cmd 规则转义参数：先按 Windows 命令行规则加引号（引号前的反斜杠加倍，引号转义为 \"），
+// 再用 "^" 转义 cmd 的特殊字符（包括引号和 "%"）。npx 是批处理文件，参数会被 cmd 再解析一次，因此转义两次
+export function quoteWindowsArg(arg: string): string {
+  if (/^[\w@+=:,./\\-]+$/.test(arg)) {
+    return arg;
+  }
+  const quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\+)$/, "$1$1")}"`;
+  return quoted.replace(WINDOWS_META_CHARS, "^$1").replace(WINDOWS_META_CHARS, "^$1");
+}
+
+// 超时后先发送 SIGTERM，让 Playwright 有机会结束 reporter 并写出已有结果，超过该时间仍未退出再强制结束
+const KILL_GRACE_PERIOD_MS = 10000;
+
+// 读取超时时间配置（单位秒），未配置或不合法时返回 0，表示不限制
+export function getTimeoutMs(envName: string): number {
+  const seconds = Number(process.env[envName] || "0");
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+}
+
+// 结束整个进程树。子进程以 detached 方式启动，是新进程组的组长，向进程组发送信号即可结束其启动的所有进程
+function killProcessTree(pid: number, signal: NodeJS.Signals): void {
   try {
-    const { stdout, stderr } = await exec(command);
-    return { stdout, stderr };
+    if (process.platform === "win32") {
+      child_process.execSync(`taskkill /pid ${pid} /T /F`);
+    } else {
+      process.kill(-pid, signal);
+    }
   } catch (error) {
-    const typedError = error as Error & { stdout: string; stderr: string }; // 类型断言
-    // log.error(
-    //   `Error executing command: ${command}\nError stdout: ${typedError.stdout}\nError stderr: ${typedError.stderr}, please check testcase's log`,
-    // );
-    return {
-      stdout: typedError.stdout,
-      stderr: typedError.stderr,
-      error: typedError,
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log.warn(`结束进程树 ${pid} 失败: ${message}`);
+  }
+}
+
+// 运行器被取消时会收到的终止信号
+const TERMINATION_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+
+// 独立进程组中的子进程不会随运行器一起收到终止信号，运行器收到信号时转发给子进程组，
+// 再按信号的默认行为结束运行器（没有其他处理函数时重新发送信号）。返回取消转发的函数。
+// 事件方法在 process 的原型上，通过命名空间导入的 process 访问不到，使用全局的 process
+function forwardTerminationSignals(pid: number): () => void {
+  const handlers = TERMINATION_SIGNALS.map((signal) => {
+    const handler = () => {
+      killProcessTree(pid, signal);
+      remove();
+      if (globalThis.process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    };
+    globalThis.process.on(signal, handler);
+    return { signal, handler };
+  });
+  const remove = () => handlers.forEach(({ signal, handler }) => globalThis.process.removeListener(signal, handler));
+  return remove;
+}
+
+// 执行命令并返回结果，timeoutMs 大于 0 时超时会结束整个进程树，并返回已经输出的 stdout/stderr。
+// Command 不经过 shell 直接执行，字符串命令通过 shell 执行，只用于不包含外部输入的固定命令。
+// 指定 stdoutFile 时标准输出写入该文件，返回的 stdout 为空
+export async function executeCommand(
+  command: Command | string,
+  timeoutMs: number = 0,
+): Promise<{ stdout: string; stderr: string; error?: globalThis.Error; timedOut?: boolean }> {
+  const display = typeof command === "string" ? command : formatCommand(command);
+  return new Promise((resolve) => {
+    // 有超时时间时子进程作为新进程组的组长启动，超时后结束整个进程组；
+    // 没有超时时间时留在运行器的进程组中，运行器被取消时一起结束
+    const detached = timeoutMs > 0 && process.platform !== "win32";
+    const options: child_process.SpawnOptions = { detached };
+    let child: child_process.ChildProcess;
+    if (typeof command === "string") {
+      child = child_process.spawn(command, { ...options, shell: true });
+    } else if (process.platform === "win32") {
+      // Windows 下 npx 是 npx.cmd 批处理文件，只能通过 shell 执行，参数按 cmd 规则加引号
+      child = child_process.spawn(command.argv.map(quoteWindowsArg).join(" "), {
+        ...options,
+        env: { ...process.env, ...command.env },
+        shell: true,
+      });
+    } else {
+      child = child_process.spawn(command.argv[0], command.argv.slice(1), {
+        ...options,
+        env: { ...process.env, ...command.env },
+      });
+    }
+    const stdoutFile = typeof command === "string" ? undefined : command.stdoutFile;
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    let settled = false;
+    const timers: NodeJS.Timeout[] = [];
+    const stopForwarding =
+      detached && child.pid !== undefined ? forwardTerminationSignals(child.pid) : () => undefined;
+
+    const finish = (error?: globalThis.Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      stopForwarding();
+      timers.forEach((timer) => clearTimeout(timer));
+      if (stdoutFile) {
+        try {
+          fs.writeFileSync(stdoutFile, stdout);
+        } catch (writeError) {
+          const message = writeError instanceof Error ? writeError.message : "Unknown error";
+          log.error(`写入标准输出文件 ${stdoutFile} 失败: ${message}`);
+        }
+        stdout = "";
+      }
+      resolve(
+        timedOut
+          ? { stdout, stderr, error, timedOut }
+          : error
+            ? { stdout, stderr, error }
+            : { stdout, stderr },
+      );
     };
+
+    child.stdout?.on("data", (data) => {
+      stdout += data.toString();
+    });
+    child.stderr?.on("data", (data) => {
+      stderr += data.toString();
+    });
+    child.on("error", (error) => finish(error));
+    child.on("close", (code, signal) => {
+      if (timedOut) {
+        finish(new globalThis.Error(`Command timed out after ${timeoutMs / 1000}s: ${display}`));
+      } else if (code !== 0) {
+        finish(new globalThis.Error(`Command failed with ${signal ? `signal ${signal}` : `exit code ${code}`}: ${display}`));
+      } else {
+        finish();
+      }
+    });
+
+    if (timeoutMs > 0 && child.pid !== undefined) {
+      const pid = child.pid;
+      timers.push(
+        setTimeout(() => {
+          timedOut = true;
+          log.error(`Command timed out after ${timeoutMs / 1000}s, killing process tree: ${display}`);
+          killProcessTree(pid, "SIGTERM");
+          timers.push(
+            setTimeout(() => {
+              killProcessTree(pid, "SIGKILL");
+              // 孙进程脱离进程组并持有输出管道时 close 事件不会触发，强制结束后直接返回
+              timers.push(
+                setTimeout(
+                  () => finish(new globalThis.Error(`Command timed out after ${timeoutMs / 1000}s: ${display}`)),
+                  1000,
+                ),
+              );
+            }, KILL_GRACE_PERIOD_MS),
+          );
+        }, timeoutMs),
+      );
+    }
+  });
+}
+
+// 根据超时前的输出推断卡住的阶段，phase 为 "load" 或 "run"
+export function describeHangPhase(
+  phase: "load" | "run",
+  stdout: string,
+  stderr: string,
+): string {
+  const output = `${stdout}\n${stderr}`;
+  if (/\[WebServer\]|webServer/i.test(output)) {
+    return "webServer 启动";
   }
+  if (/global ?setup/i.test(output)) {
+    return "globalSetup";
+  }
+  return phase === "load" ? "加载用例文件" : "执行用例";
+}
+
+// 生成超时说明，包含卡住的阶段以及超时前输出的最后部分
+export function createTimeoutMessage(
+  phase: "load" | "run",
+  command: string,
+  timeoutMs: number,
+  stdout: string,
+  stderr: string,
+): string {
+  const tail = (text: string) => (text || "").slice(-2000);
+  return [
+    `${phase === "load" ? "加载" : "运行"}超时：命令在 ${timeoutMs / 1000} 秒内未结束，已结束整个进程树。` +
+      `疑似卡在 ${describeHangPhase(phase, stdout, stderr)} 阶段`,
+    `命令: ${command}`,
+    `==== 标准输出（最后部分） ====\n${tail(stdout)}`,
+    `==== 标准错误输出（最后部分） ====\n${tail(stderr)}`,
+  ].join("\n");
 }
 
 export function parseErrorCases(
@@ -284,7 +603,7 @@ export const filterTestcases = async (
           break;
         }
       } else {
-        if (testCase.includes(encodeQueryParams(selector))) {
+        if (testCase.includes(encodeQueryParams(normalizeSuitePath(selector)))) {
           matched = true;
           break;
         }
@@ -302,127 +621,955 @@ export const filterTestcases = async (
   return filteredTestcases;
 };
 
-// 解析测试用例
-export const parseTestcase = (
+// 多 project 配置下用例名称以 "[project] " 开头，例如 "tests/a.spec.ts?[firefox] login"
+const PROJECT_PREFIX_PATTERN = /^\[([^\]]+)\] /;
+
+// 判断配置中是否定义了多个 project，只有多 project 时用例名称才带 project 前缀，保持单 project 用例名称不变
+export function isMultiProject(data: Data): boolean {
+  return (data.config.projects || []).length > 1;
+}
+
+// 获取 test 所属的 project 名称，JSON 报告中 projectName 缺失时回退到 projectId
+export function getProjectName(test: Test): string {
+  return test.projectName || test.projectId || "";
+}
+
+// 为用例名称加上 project 前缀
+export function addProjectPrefix(name: string, project: string): string {
+  return project ? `[${project}] ${name}` : name;
+}
+
+// 拆分用例名称中的 project 前缀，没有前缀时 project 为 null
+export function splitProjectFromName(name: string): {
+  project: string | null;
+  name: string;
+} {
+  const match = name.match(PROJECT_PREFIX_PATTERN);
+  if (!match) {
+    return { project: null, name };
+  }
+  return { project: match[1], name: name.substring(match[0].length) };
+}
+
+// 用例名称中 describe 层级与用例标题之间的分隔符。
+// 与 Playwright 拼接 titlePath 做 --grep 匹配时使用的分隔符一致，因此用例名称可以直接用于 grep，
+// 例如 `test.describe("A") > test.describe("B") > test("c")` 对应用例名称 "A B c"。
+export const CASE_TITLE_SEPARATOR = " ";
+
+// suitePath 属性中 describe 层级之间的分隔符，与 Playwright 自带 reporter 展示的分隔符一致，
+// 例如 "A › B"。选择用例时也可以使用该分隔符指定 describe 层级。
+export const SUITE_PATH_SEPARATOR = " › ";
+
+// 加载阶段解析出的用例，name 为编码后的 "path?name" 形式，attributes 会作为 TestCase 的属性上报
+export interface ParsedTestcase {
+  name: string;
+  path: string;
+  line?: number;
+  column?: number;
+  tags: string[];
+  attributes: Record<string, string>;
+  // 名称与同一文件中其他用例重复时，记录追加位置后缀之前的原始名称
+  duplicateOf?: string;
+}
+
+// 名称重复的用例追加的位置后缀，例如 " [L12]"、同一行有多条时的 " [L12:5]"，没有行号时按序号 " [#2]"
+const DUPLICATE_SUFFIX_PATTERN = / \[(?:L\d+(?::\d+)?|#\d+)\]$/;
+
+// 生成名称重复用例的位置后缀
+export function formatDuplicateSuffix(line: number, column?: number): string {
+  return column !== undefined ? ` [L${line}:${column}]` : ` [L${line}]`;
+}
+
+// 去掉用例名称中的位置后缀，得到 Playwright 中的原始标题
+export function stripDuplicateSuffix(name: string): string {
+  return name.replace(DUPLICATE_SUFFIX_PATTERN, "");
+}
+
+// 解析用例名称中的行号后缀，没有行号后缀（包括 " [#n]" 序号后缀）时返回 null
+export function parseDuplicateLine(name: string): number | null {
+  const match = name.match(/ \[L(\d+)(?::\d+)?\]$/);
+  return match ? Number(match[1]) : null;
+}
+
+// 同一文件中名称重复的用例（例如循环生成的数据驱动用例，或 describe 与标题拼接后相同）无法单独选择和上报，
+// 按所在行为每条重复用例追加位置后缀，同一行有多条时再追加列号
+export function disambiguateTestcases(
+  testcases: ParsedTestcase[],
+): ParsedTestcase[] {
+  const groups = new Map<string, ParsedTestcase[]>();
+  for (const testcase of testcases) {
+    groups.set(testcase.name, [...(groups.get(testcase.name) || []), testcase]);
+  }
+
+  return testcases.map((testcase) => {
+    const group = groups.get(testcase.name)!;
+    if (group.length < 2) {
+      return testcase;
+    }
+    let suffix: string;
+    if (testcase.line === undefined) {
+      suffix = ` [#${group.indexOf(testcase) + 1}]`;
+    } else {
+      const sameLine = group.filter((item) => item.line === testcase.line);
+      suffix = formatDuplicateSuffix(
+        testcase.line,
+        sameLine.length > 1 ? testcase.column : undefined,
+      );
+    }
+    // name 的查询部分整体经过 encodeURIComponent 编码，后缀单独编码后直接拼接即可
+    return {
+      ...testcase,
+      name: testcase.name + encodeURIComponent(suffix),
+      duplicateOf: testcase.name,
+    };
+  });
+}
+
+// 为名称重复的用例生成加载错误，提示按原名称选择时会同时选中多条用例
+export function createDuplicateLoadErrors(
+  testcases: ParsedTestcase[],
+): LoadError[] {
+  const duplicates = new Map<string, string[]>();
+  for (const testcase of testcases) {
+    if (testcase.duplicateOf) {
+      duplicates.set(testcase.duplicateOf, [
+        ...(duplicates.get(testcase.duplicateOf) || []),
+        decodeURIComponent(testcase.name),
+      ]);
+    }
+  }
+  return Array.from(duplicates.entries()).map(
+    ([name, names]) =>
+      new LoadError(
+        decodeURIComponent(name),
+        `用例名称重复，已按所在位置追加后缀区分：${names.join(", ")}。按原名称选择用例时会同时选中这些用例`,
+      ),
+  );
+}
+
+// "file:line" 形式的选择器，例如 "tests/login.spec.ts:42"
+const LINE_SELECTOR_PATTERN = /^([^?]+):(\d+)$/;
+
+// 解析 "file:line" 选择器，不是该形式时返回 null
+export function parseLineSelector(
+  selector: string,
+): { path: string; line: number } | null {
+  const match = selector.match(LINE_SELECTOR_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return { path: match[1], line: Number(match[2]) };
+}
+
+// 转义正则中的特殊字符，使文本按字面匹配
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+// 用例名称之前的文件名部分。路径是目录时不限定文件名，只要求标题之前是一个用例文件
+function buildFileNameSource(casePath: string): string {
+  return path.posix.extname(casePath)
+    ? escapeRegExp(path.posix.basename(casePath))
+    : "[^/]*\\.[cm]?[jt]sx?";
+}
+
+// 生成精确匹配指定用例的正则。Playwright 将 project、文件路径（相对于 testDir）、describe 层级和标题
+// 用空格拼接后匹配 grep，新版本还会在每一层 describe 标题和用例标题之后追加 details 中声明的标签。
+// 每个用例名称转义后以文件名开头、以标题（及其后的标签）结尾，"login" 不会匹配到 "login twice"，
+// 标题中的括号、加号等字符也按字面匹配。用例名称中无法区分 describe 层级的边界，因此每个空格之前都允许出现标签
+export function buildGrepSource(casePath: string, names: string[]): string {
+  const titles = names
+    .map((name) =>
+      name.split(CASE_TITLE_SEPARATOR).map(escapeRegExp).join(`(?: @\\S+)*${CASE_TITLE_SEPARATOR}`),
+    )
+    .join("|");
+  return `(?:^|[ /])${buildFileNameSource(casePath)} (?:${titles})(?: @\\S+)*$`;
+}
+
+// 生成匹配文件（或目录下所有文件）中全部用例的正则
+export function buildFileGrepSource(casePath: string): string {
+  return `(?:^|[ /])${buildFileNameSource(casePath)} `;
+}
+
+// 生成精确匹配指定用例的 grep 参数，使用 "/pattern/" 形式传入，避免 Playwright 默认按忽略大小写匹配
+export function buildGrepPattern(casePath: string, names: string[]): string {
+  return `/${buildGrepSource(casePath, names)}/`;
+}
+
+// 将正则选择器中的正则合并为 "/pattern/flags" 形式的 grep 参数，Playwright 只支持 g、i 两个标志，
+// 全部正则都忽略大小写时才使用 i，避免 Playwright 默认按忽略大小写匹配
+export function buildRegexGrepPattern(regexes: RegExp[]): string {
+  const source = Array.from(new Set(regexes.map((regex) => `(?:${regex.source})`))).join("|");
+  const ignoreCase = regexes.length > 0 && regexes.every((regex) => regex.ignoreCase);
+  return `/${source}/${ignoreCase ? "i" : ""}`;
+}
+
+// 将使用 suitePath 分隔符书写的用例名称转换为用例名称中的分隔符
+export function normalizeSuitePath(name: string): string {
+  return name.split(SUITE_PATH_SEPARATOR).join(CASE_TITLE_SEPARATOR);
+}
+
+// 去掉标签开头的 "@"，Playwright JSON 报告中的标签不带 "@"，用例标题中的标签带 "@"
+export function normalizeTag(tag: string): string {
+  return tag.startsWith("@") ? tag.substring(1) : tag;
+}
+
+// 解析标签选择器，支持 "@smoke" 和 "tag:regression" 两种写法，不是标签选择器时返回 null
+export function parseTagSelector(selector: string): string | null {
+  if (selector.startsWith("@")) {
+    return normalizeTag(selector);
+  }
+  if (selector.startsWith("tag:")) {
+    return normalizeTag(selector.substring("tag:".length));
+  }
+  return null;
+}
+
+// 排除选择器以 "!" 开头，"!" 之后可以是任意选择器，例如 "!tests/quarantine/"、"!@flaky"
+const EXCLUDE_SELECTOR_PREFIX = "!";
+
+// 正则选择器，例如 "re:/^checkout .*guest/i"，按用例名称（不含文件路径）匹配
+const REGEX_SELECTOR_PATTERN = /^re:\/(.*)\/([a-z]*)$/;
+
+// 解析排除选择器，返回 "!" 之后的选择器，不是排除选择器时返回 null
+export function parseExcludeSelector(selector: string): string | null {
+  return selector.startsWith(EXCLUDE_SELECTOR_PREFIX)
+    ? selector.substring(EXCLUDE_SELECTOR_PREFIX.length)
+    : null;
+}
+
+// 解析正则选择器，不是正则选择器时返回 null，正则不合法时记录错误并返回 null
+export function parseRegexSelector(selector: string): RegExp | null {
+  const match = selector.match(REGEX_SELECTOR_PATTERN);
+  if (!match) {
+    return null;
+  }
+  try {
+    return new RegExp(match[1], match[2]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    log.error(`正则选择器 ${selector} 不合法: ${message}`);
+    return null;
+  }
+}
+
+// 判断是否为正则选择器
+export function isRegexSelector(selector: string): boolean {
+  return REGEX_SELECTOR_PATTERN.test(selector);
+}
+
+// 判断是否为 glob 选择器，路径部分包含 "*" 或 "{" 时按 glob 匹配用例文件，例如 "tests/**/checkout*.spec.ts"。
+// "?" 仍然是路径与用例名称之间的分隔符，不作为 glob 通配符
+export function isGlobSelector(selector: string): boolean {
+  return !isRegexSelector(selector) && /[*{]/.test(selector.split("?")[0]);
+}
+
+// 判断 "path?name" 形式的用例是否匹配 glob 选择器，选择器带用例名称时还需要用例名称包含该名称
+export function matchesGlobSelector(selector: string, testcase: string): boolean {
+  const [globPath, ...nameParts] = selector.split("?");
+  const [casePath, ...caseNameParts] = testcase.split("?");
+  const relativePath = path.isAbsolute(casePath)
+    ? path.relative(process.cwd(), casePath).split(path.sep).join("/")
+    : casePath;
+  if (!minimatch(relativePath, globPath, { dot: true })) {
+    return false;
+  }
+  const name = normalizeSuitePath(nameParts.join("?"));
+  return name === "" || decodeURIComponent(caseNameParts.join("?")).includes(name);
+}
+
+// 判断 "path?name" 形式的用例名称（不含文件路径）是否匹配正则
+export function matchesRegexSelector(regex: RegExp, testcase: string): boolean {
+  const index = testcase.indexOf("?");
+  if (index === -1) {
+    return false;
+  }
+  regex.lastIndex = 0;
+  return regex.test(decodeURIComponent(testcase.substring(index + 1)));
+}
+
+// 默认的注解类型 -> 用例属性名称映射，未配置的注解类型直接使用类型名称作为属性名称
+const DEFAULT_ANNOTATION_ATTRIBUTES: Record<string, string> = {
+  owner: "owner",
+  issue: "issue",
+};
+
+// 读取注解类型到用例属性名称的映射，环境变量 TESTSOLAR_TTP_ANNOTATIONMAPPING 格式为 "type:attribute"，
+// 多个映射之间用逗号分隔，例如 "maintainer:owner,bug:issue"
+export function getAnnotationAttributeMapping(): Record<string, string> {
+  const mapping: Record<string, string> = { ...DEFAULT_ANNOTATION_ATTRIBUTES };
+  const raw = process.env.TESTSOLAR_TTP_ANNOTATIONMAPPING || "";
+  for (const pair of raw.split(",")) {
+    if (pair.trim() === "") {
+      continue;
+    }
+    const [type, attribute] = pair.split(":").map((item) => item.trim());
+    if (!type || !attribute) {
+      log.error(`TESTSOLAR_TTP_ANNOTATIONMAPPING 配置格式错误，忽略：${pair}`);
+      continue;
+    }
+    mapping[type] = attribute;
+  }
+  return mapping;
+}
+
+// 将 Playwright 注解转换为用例属性，同一属性有多个注解时用逗号拼接
+export function mapAnnotationsToAttributes(
+  annotations: Annotations[],
+): Record<string, string> {
+  const mapping = getAnnotationAttributeMapping();
+  const attributes: Record<string, string> = {};
+  for (const annotation of annotations) {
+    if (!annotation || !annotation.type) {
+      continue;
+    }
+    const name = mapping[annotation.type] || annotation.type;
+    const value = annotation.description || "";
+    attributes[name] = attributes[name] ? `${attributes[name]},${value}` : value;
+  }
+  return attributes;
+}
+
+// 生成用例的标签和注解属性，标签和注解原文以 JSON 字符串形式保存，注解同时按映射表转换为独立属性
+function buildTagAttributes(
+  tags: string[],
+  annotations: Annotations[],
+): Record<string, string> {
+  return {
+    ...mapAnnotationsToAttributes(annotations),
+    tags: JSON.stringify(tags),
+    annotations: JSON.stringify(annotations),
+  };
+}
+
+// 生成用例的运行配置属性：期望状态（test.fail() 为 failed，test.skip()/test.fixme() 为 skipped）、
+// 超时时间（毫秒）以及 test 所属 project 配置的重试次数
+function buildRunConfigAttributes(
+  test: Test | undefined,
+  data: Data,
+): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  if (!test) {
+    return attributes;
+  }
+  if (test.expectedStatus) {
+    attributes.expectedStatus = test.expectedStatus;
+  }
+  if (test.timeout !== undefined) {
+    attributes.timeout = String(test.timeout);
+  }
+  const project = (data.config.projects || []).find(
+    (project) =>
+      (project.id ?? project.name) === test.projectId ||
+      project.name === getProjectName(test),
+  );
+  if (project?.retries !== undefined) {
+    attributes.retries = String(project.retries);
+  }
+  return attributes;
+}
+
+// 拼接 describe 层级与用例标题
+export function joinCaseTitle(suitePath: string[], title: string): string {
+  return [...suitePath, title].join(CASE_TITLE_SEPARATOR);
+}
+
+// 解析测试用例及其属性
+export const parseTestcaseDetails = (
   projPath: string,
   data: Data,
   rootDir: string | null = null,
-): string[] => {
-  let testcases: string[] = [];
+): ParsedTestcase[] => {
+  const testcases: ParsedTestcase[] = [];
   const rootPath = rootDir ? rootDir : data.config.rootDir;
+  const multiProject = isMultiProject(data);
+
+  // 递归遍历 suites，suitePath 记录从外到内的完整 describe 层级
+  const parseSuites = (suites: Suite[], suitePath: string[]) => {
+    suites.forEach((suite: Suite) => {
+      const casePath = (rootPath + "/" + suite.file).replace(`${projPath}/`, "");
+      // 文件级 suite 的标题就是文件名，不计入 describe 层级
+      const currentPath =
+        suite.title === suite.file ? suitePath : [...suitePath, suite.title];
+
+      (suite.specs || []).forEach((spec: Spec) => {
+        const name = joinCaseTitle(currentPath, spec.title);
+        const tags = (spec.tags || []).map(normalizeTag);
+        const suiteAttributes: Record<string, string> = {
+          suitePath: currentPath.join(SUITE_PATH_SEPARATOR),
+        };
+        if (spec.line !== undefined) {
+          suiteAttributes.line = String(spec.line);
+          suiteAttributes.column = String(spec.column ?? 0);
+        }
+        if (multiProject && spec.tests && spec.tests.length > 0) {
+          // 多 project 时每个 project 生成一条独立用例
+          spec.tests.forEach((test: Test) => {
+            const testcase =
+              casePath + "?" + addProjectPrefix(name, getProjectName(test));
+            testcases.push({
+              name: encodeQueryParams(testcase),
+              path: casePath,
+              line: spec.line,
+              column: spec.column,
+              tags,
+              attributes: {
+                ...suiteAttributes,
+                ...buildRunConfigAttributes(test, data),
+                ...buildTagAttributes(tags, test.annotations || []),
+              },
+            });
+          });
+        } else {
+          const annotations = (spec.tests || []).flatMap(
+            (test: Test) => test.annotations || [],
+          );
+          testcases.push({
+            name: encodeQueryParams(casePath + "?" + name),
+            path: casePath,
+            line: spec.line,
+            column: spec.column,
+            tags,
+            attributes: {
+              ...suiteAttributes,
+              ...buildRunConfigAttributes((spec.tests || [])[0], data),
+              ...buildTagAttributes(tags, annotations),
+            },
+          });
+        }
+      });
 
-  data.suites.forEach((suite: Suite) => {
-    let casePath = (rootPath + "/" + suite.file).replace(`${projPath}/`, "");
-    if (suite.suites) {
-      const cases = parseTestcase(
-        projPath,
-        { config: data.config, suites: suite.suites },
-        rootPath,
-      );
-      testcases = testcases.concat(cases);
-    } else {
-      let desc = "";
-      if (suite.title === suite.file) {
-        desc = "";
-        casePath = (rootPath + "/" + suite.file).replace(`${projPath}/`, "");
-      } else {
-        desc = suite.title;
+      if (suite.suites) {
+        parseSuites(suite.suites, currentPath);
       }
+    });
+  };
+  parseSuites(data.suites, []);
 
-      suite.specs.forEach((spec: Spec) => {
-        const caseName = spec.title;
-        const testcase =
-          casePath + "?" + (desc ? `${desc} ${caseName}` : caseName);
-        testcases.push(encodeQueryParams(testcase));
-      });
+  return disambiguateTestcases(testcases);
+};
+
+// 根据选择器从加载的用例中选出需要上报的用例，"!" 开头的选择器排除匹配的用例，只有排除选择器时从全部用例中排除
+export async function selectTestcases(
+  testSelectors: string[],
+  parsedTestcases: string[],
+  testcaseDetails: ParsedTestcase[],
+): Promise<string[]> {
+  const includeSelectors: string[] = [];
+  const excludeSelectors: string[] = [];
+  for (const selector of testSelectors) {
+    const excluded = parseExcludeSelector(selector);
+    if (excluded !== null) {
+      excludeSelectors.push(excluded);
+    } else {
+      includeSelectors.push(selector);
     }
-  });
+  }
+
+  const included =
+    includeSelectors.length > 0
+      ? await matchSelectors(includeSelectors, parsedTestcases, testcaseDetails)
+      : new Set(parsedTestcases);
+  const excluded = await matchSelectors(
+    excludeSelectors,
+    parsedTestcases,
+    testcaseDetails,
+  );
+
+  // 保持加载顺序
+  return parsedTestcases.filter(
+    (testcase) => included.has(testcase) && !excluded.has(testcase),
+  );
+}
+
+// 返回匹配任一选择器的用例。标签选择器按用例标签匹配，"file:line" 选择器按用例所在行匹配，
+// glob 选择器按用例文件路径匹配，正则选择器按用例名称匹配，其余选择器按路径和名称匹配
+async function matchSelectors(
+  testSelectors: string[],
+  parsedTestcases: string[],
+  testcaseDetails: ParsedTestcase[],
+): Promise<Set<string>> {
+  const tags: string[] = [];
+  const locations: { path: string; line: number }[] = [];
+  const globs: string[] = [];
+  const regexes: RegExp[] = [];
+  const pathSelectors: string[] = [];
+  for (const selector of testSelectors) {
+    const tag = parseTagSelector(selector);
+    const location = parseLineSelector(selector);
+    if (tag !== null) {
+      tags.push(tag);
+    } else if (location !== null) {
+      locations.push(location);
+    } else if (isRegexSelector(selector)) {
+      const regex = parseRegexSelector(selector);
+      if (regex) {
+        regexes.push(regex);
+      }
+    } else if (isGlobSelector(selector)) {
+      globs.push(selector);
+    } else {
+      pathSelectors.push(selector);
+    }
+  }
+
+  const matched = new Set<string>();
+  if (pathSelectors.length > 0) {
+    const filtered = await filterTestcases(pathSelectors, parsedTestcases, false);
+    filtered.forEach((testcase) => matched.add(testcase));
+  }
+  testcaseDetails
+    .filter((testcase) => testcase.tags.some((tag) => tags.includes(tag)))
+    .forEach((testcase) => matched.add(testcase.name));
+  testcaseDetails
+    .filter((testcase) =>
+      locations.some(
+        (location) =>
+          location.path === testcase.path && location.line === testcase.line,
+      ),
+    )
+    .forEach((testcase) => matched.add(testcase.name));
+  parsedTestcases
+    .filter(
+      (testcase) =>
+        globs.some((glob) => matchesGlobSelector(glob, testcase)) ||
+        regexes.some((regex) => matchesRegexSelector(regex, testcase)),
+    )
+    .forEach((testcase) => matched.add(testcase));
+
+  return matched;
+}
 
+// 解析测试用例
+export const parseTestcase = (
+  projPath: string,
+  data: Data,
+  rootDir: string | null = null,
+): string[] => {
+  const testcases = parseTestcaseDetails(projPath, data, rootDir).map(
+    (testcase) => testcase.name,
+  );
   return Array.from(new Set(testcases));
 };
 
-/// 生成运行测试用例的命令
-export function generateCommands(
-  casePath: string,
-  testCases: string[],
+// 运行选择的用例名称解析结果
+interface RunNames {
+  // 带前缀的用例所属的 project
+  projects: Set<string>;
+  // 去掉 project 前缀和位置后缀后用于 grep 的名称，空字符串表示整个文件或目录
+  grepNames: string[];
+  // 正则选择器中的正则
+  regexes: RegExp[];
+  // 带行号后缀的用例所在行
+  lines: number[];
+}
+
+// 拆分用例名称中的 project 前缀、正则选择器和位置后缀
+function parseRunNames(testCases: string[]): RunNames {
+  const names: RunNames = { projects: new Set(), grepNames: [], regexes: [], lines: [] };
+  for (const testcase of testCases) {
+    const { project, name } = splitProjectFromName(decodeURIComponent(testcase));
+    if (project) {
+      names.projects.add(project);
+    }
+    // 正则选择器直接使用其中的正则作为 grep
+    const regex = parseRegexSelector(name);
+    if (regex) {
+      names.regexes.push(regex);
+      continue;
+    }
+    const line = parseDuplicateLine(name);
+    if (line !== null) {
+      names.lines.push(line);
+    }
+    // 重复用例的位置后缀不属于 Playwright 标题，grep 时去掉，同名用例会一起运行，结果按所在行区分
+    names.grepNames.push(normalizeSuitePath(stripDuplicateSuffix(name)));
+  }
+  return names;
+}
+
+// 生成完整的运行命令：在运行目标之后追加 reporter、trace、workers、输出目录和额外参数，
+// 每次运行使用独立的 --output 目录。envJsonFile 为 true 时强制通过环境变量输出 JSON 报告
+function buildRunCommand(
+  configFile: string | null,
+  targetArgs: string[],
   jsonName: string,
-): { command: string; testIdentifiers: string[] } {
-  const testIdentifiers: string[] = [];
+  hashInput: string,
+  envJsonFile: boolean,
+): Command {
+  // 从环境变量中获取 TESTSOLAR_TTP_EXTRAARGS 值，按 shell 规则拆分为参数
+  const extraArgs = splitArgs(process.env.TESTSOLAR_TTP_EXTRAARGS || "");
 
-  // 从环境变量中获取 TESTSOLAR_TTP_EXTRAARGS 值
-  const extraArgs = process.env.TESTSOLAR_TTP_EXTRAARGS || "";
-  
   // 默认启用环境变量JSON文件，除非明确设置为"0"才禁用
   const useEnvJsonFile = process.env.TESTSOLAR_TTP_ENVJSONFILE !== "0";
-  const runAllCases = process.env.TESTSOLAR_TTP_RUNALLCASES?.toLowerCase() === "1" || 
-                    process.env.TESTSOLAR_TTP_RUNALLCASES?.toLowerCase() === "true";
 
   // 默认启用trace，只有当明确设置TESTSOLAR_TTP_TRACE为"0"时才关闭
   const disableTrace = process.env.TESTSOLAR_TTP_TRACE === "0";
-  const traceOption = disableTrace ? "--trace off" : "--trace on";
+  const traceOption = ["--trace", disableTrace ? "off" : "on"];
   
   // 读取工作进程数量配置
   const workCounts = process.env.TESTSOLAR_TTP_WORKCOUNTS;
   // 如果指定了工作进程数量，则添加 --workers 参数
-  const workersOption = workCounts ? `--workers=${workCounts}` : "";
+  const workersOption = workCounts ? [`--workers=${workCounts}`] : [];
 
   // 创建基于测试路径和测试用例的哈希值
-  const input = `${casePath}-${testCases.join('-')}-${Date.now()}-${Math.random()}`;
+  const input = `${hashInput}-${Date.now()}-${Math.random()}`;
   const hash = createHash('md5').update(input).digest('hex').substring(0, 10);
   const outputOption = `--output=test-results-${hash}`;
-  
+
+  // 实时上报时额外注入 reporter，每条用例结束时写出结果
+  const streamResults = isStreamResultsEnabled();
+
+  // 分片运行时额外输出 blob 报告，便于之后合并各分片的报告
+  const shard = getShardConfig();
+  const reporters = [
+    "json",
+    ...(shard ? ["blob"] : []),
+    ...(streamResults ? [STREAM_REPORTER_PATH] : []),
+  ];
+
+  // 多配置（monorepo）时通过 -c 指定用例所属的配置文件
+  const configOption = configFile ? ["-c", configFile] : [];
+
+  const argv = [
+    "npx",
+    "playwright",
+    "test",
+    ...configOption,
+    ...targetArgs,
+    ...getShardArgs(shard),
+    `--reporter=${reporters.join(",")}`,
+    ...traceOption,
+    ...workersOption,
+    outputOption,
+    ...extraArgs,
+  ];
+
+  // 按配置选择环境变量或重定向标准输出
+  const command: Command =
+    useEnvJsonFile || envJsonFile
+      ? { argv, env: { PLAYWRIGHT_JSON_OUTPUT_NAME: jsonName } }
+      : { argv, env: {}, stdoutFile: jsonName };
+  if (streamResults) {
+    command.env.TESTSOLAR_TTP_STREAMFILE = getStreamFileName(jsonName);
+  }
+  if (shard) {
+    command.env.PLAYWRIGHT_BLOB_OUTPUT_FILE = getBlobFileName(jsonName, shard);
+  }
+  return command;
+}
+
+/// 生成运行测试用例的命令，configFile 为用例所属的配置文件（多配置时通过 -c 指定）
+export function generateCommands(
+  casePath: string,
+  testCases: string[],
+  jsonName: string,
+  configFile: string | null = null,
+): { command: Command; testIdentifiers: string[] } {
+  const testIdentifiers: string[] = [];
+
+  const runAllCases = process.env.TESTSOLAR_TTP_RUNALLCASES?.toLowerCase() === "1" || 
+                    process.env.TESTSOLAR_TTP_RUNALLCASES?.toLowerCase() === "true";
+
   // 检查是否为 fileMode
   const fileMode = process.env.TESTSOLAR_TTP_FILEMODE == "1";
-  
-  // 获取 grep 模式（在 fileMode 下不使用 grep）
-  let grepPattern = "";
-  if (testCases.length > 0 && !fileMode && !runAllCases) {
-    grepPattern = `--grep="${decodeURIComponent(testCases.join("|"))}"`;
+
+  // 拆分用例名称中的 project 前缀，带前缀的用例通过 --project 指定运行的 project
+  const { projects, grepNames, regexes, lines } = parseRunNames(testCases);
+
+  // "file:line" 形式的路径由 Playwright 直接定位到具体用例，不需要 grep
+  const lineTarget = parseLineSelector(casePath) !== null;
+  // 所有用例都带行号后缀时，直接以 "file:line" 定位，不需要 grep
+  const duplicateLineTarget =
+    casePath !== "" && lines.length > 0 && lines.length === testCases.length;
+
+  // 获取 grep 参数（在 fileMode 下不使用 grep），参数不经过 shell，标题中的引号等字符不需要转义。
+  // 具体用例按转义并锚定的完整名称匹配；没有路径的正则选择器使用其中的正则
+  const grepOption: string[] = [];
+  // 只有路径没有用例名称的选择器运行整个文件或目录，不需要 grep
+  const wholePath = grepNames.includes("");
+  if (testCases.length > 0 && !fileMode && !runAllCases && !lineTarget) {
+    if (!duplicateLineTarget && !wholePath) {
+      const grep =
+        grepNames.length > 0
+          ? buildGrepPattern(casePath, Array.from(new Set(grepNames)))
+          : buildRegexGrepPattern(regexes);
+      grepOption.push(`--grep=${grep}`);
+    }
+    projects.forEach((project) => {
+      grepOption.push(`--project=${project}`);
+    });
   }
 
-  let command;
-  
-  if (useEnvJsonFile) {
-    // 使用环境变量设置 JSON 输出
-    if (testCases.length === 0) {
-      // 在 fileMode 下，即使没有具体测试用例，也要指定文件路径
-      if (fileMode) {
-        command = `export PLAYWRIGHT_JSON_OUTPUT_NAME=${jsonName} && npx playwright test ${casePath} --reporter=json ${traceOption} ${workersOption} ${outputOption} ${extraArgs}`;
-      } else {
-        command = `export PLAYWRIGHT_JSON_OUTPUT_NAME=${jsonName} && npx playwright test --reporter=json ${traceOption} ${workersOption} ${outputOption} ${extraArgs}`;
-      }
+  // 运行目标：没有具体用例时只有 fileMode 指定文件路径，runAllCases 运行整个目录
+  let targetArgs: string[];
+  if (testCases.length === 0) {
+    targetArgs = fileMode && casePath ? [casePath] : [];
+  } else if (runAllCases) {
+    targetArgs = [`./${casePath}/`];
+  } else if (duplicateLineTarget && !fileMode) {
+    const lineArgs = Array.from(new Set(lines)).map((line) => `${casePath}:${line}`);
+    targetArgs = [...lineArgs, ...grepOption];
+  } else {
+    targetArgs = casePath ? [casePath, ...grepOption] : grepOption;
+  }
+
+  // runAllCases 始终通过环境变量输出 JSON 报告
+  const command = buildRunCommand(
+    configFile,
+    targetArgs,
+    jsonName,
+    `${casePath}-${testCases.join('-')}`,
+    runAllCases && testCases.length > 0,
+  );
+
+  // 生成测试标识符，"file:line" 直接作为标识符，运行结果按用例所在行映射回该标识符
+  if (lineTarget) {
+    testIdentifiers.push(casePath);
+  } else {
+    for (const testcase of testCases) {
+      testIdentifiers.push(`${casePath}?${testcase}`);
+    }
+  }
+
+  log.info(`Generated command for test cases: ${formatCommand(command)}`);
+  return { command, testIdentifiers };
+}
+
+// 判断文件分组能否与其他分组合并运行，返回合并分组的键，不能合并时返回 null。
+// 只有具体文件或目录中按名称选择的用例可以合并；配置文件和 --project 相同的分组才能合并到一次运行中
+export function getCombineKey(
+  casePath: string,
+  testCases: string[],
+  configFile: string | null = null,
+): string | null {
+  if (casePath === "" || parseLineSelector(casePath) !== null) {
+    return null;
+  }
+  const { projects, regexes } = parseRunNames(testCases);
+  if (regexes.length > 0) {
+    return null;
+  }
+  return JSON.stringify([configFile, Array.from(projects).sort()]);
+}
+
+// 将多个文件分组合并为一次运行：运行目标为所有分组的路径，grep 为各分组锚定名称的并集，
+// 只有路径的分组按文件名匹配其中的所有用例。各分组需要由 getCombineKey 判断为可以合并
+export function generateCombinedCommands(
+  caseLists: Record<string, string[]>,
+  jsonName: string,
+  configFile: string | null = null,
+): { command: Command; testIdentifiers: string[] } {
+  const entries = Object.entries(caseLists);
+  const targets: string[] = [];
+  const alternatives: string[] = [];
+  const projects = new Set<string>();
+  const testIdentifiers: string[] = [];
+  let needGrep = false;
+  for (const [casePath, testCases] of entries) {
+    const names = parseRunNames(testCases);
+    names.projects.forEach((project) => projects.add(project));
+    targets.push(casePath);
+    if (names.grepNames.includes("")) {
+      alternatives.push(buildFileGrepSource(casePath));
     } else {
-      if (runAllCases) {
-        command = `export PLAYWRIGHT_JSON_OUTPUT_NAME=${jsonName} && npx playwright test ./${casePath}/ --reporter=json ${traceOption} ${workersOption} ${outputOption} ${extraArgs}`;
-      } else {
-        command = `export PLAYWRIGHT_JSON_OUTPUT_NAME=${jsonName} && npx playwright test ${casePath} ${grepPattern} --reporter=json ${traceOption} ${workersOption} ${outputOption} ${extraArgs}`;
-      }
+      needGrep = true;
+      alternatives.push(buildGrepSource(casePath, Array.from(new Set(names.grepNames))));
     }
-  } else {
-    // 使用原始的重定向方式
-    if (testCases.length === 0) {
-      // 在 fileMode 下，即使没有具体测试用例，也要指定文件路径
-      if (fileMode) {
-        command = `npx playwright test ${casePath} --reporter=json ${traceOption} ${workersOption} ${outputOption} ${extraArgs} > ${jsonName}`;
-      } else {
-        command = `npx playwright test --reporter=json ${traceOption} ${workersOption} ${outputOption} ${extraArgs} > ${jsonName}`;
+    testIdentifiers.push(...testCases.map((testcase) => `${casePath}?${testcase}`));
+  }
+
+  const targetArgs = [...targets];
+  if (needGrep) {
+    targetArgs.push(`--grep=/${alternatives.join("|")}/`);
+  }
+  projects.forEach((project) => {
+    targetArgs.push(`--project=${project}`);
+  });
+
+  const command = buildRunCommand(
+    configFile,
+    targetArgs,
+    jsonName,
+    testIdentifiers.join('-'),
+    false,
+  );
+  log.info(`Generated combined command for ${entries.length} files: ${formatCommand(command)}`);
+  return { command, testIdentifiers };
+}
+
+// 单次运行默认最多选择的用例数量，默认不拆分：每次运行都会重新执行 globalSetup、webServer 和 worker 启动
+const DEFAULT_CHUNK_SIZE = 0;
+
+// 单次运行选择的用例名称总长度上限，超过后拆分到下一次运行，避免超出命令行参数长度限制（Windows 为 8191 个字符）
+const MAX_CHUNK_NAME_LENGTH = 6000;
+
+// 读取单次运行最多选择的用例数量，0 表示不限制
+function getChunkSize(): number {
+  const raw = process.env.TESTSOLAR_TTP_CHUNKSIZE;
+  const parsed = raw !== undefined && raw.trim() !== "" ? Number(raw) : DEFAULT_CHUNK_SIZE;
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : DEFAULT_CHUNK_SIZE;
+}
+
+// 用例名称总长度
+function getNamesLength(testCases: string[]): number {
+  return testCases.reduce((total, testCase) => total + decodeURIComponent(testCase).length, 0);
+}
+
+// 将同一文件中选择的用例拆分为多次运行，用例名称总长度始终不超过上限；
+// 每次不超过 TESTSOLAR_TTP_CHUNKSIZE 条，TESTSOLAR_TTP_CHUNKSIZE 未配置或为 0 时不按数量拆分
+export function chunkTestCases(testCases: string[]): string[][] {
+  const chunkSize = getChunkSize();
+  if (testCases.length === 0) {
+    return [testCases];
+  }
+
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+  for (const testCase of testCases) {
+    const length = getNamesLength([testCase]);
+    if (
+      current.length > 0 &&
+      ((chunkSize > 0 && current.length >= chunkSize) ||
+        currentLength + length > MAX_CHUNK_NAME_LENGTH)
+    ) {
+      chunks.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push(testCase);
+    currentLength += length;
+  }
+  chunks.push(current);
+  return chunks;
+}
+
+// 按 project 前缀对同一文件中选择的用例分组，保持首次出现的顺序，不带前缀的用例为一组。
+// 每组单独运行，--project 只对本组的用例生效，避免所有用例在所有选择的 project 中运行
+export function groupTestCasesByProject(testCases: string[]): string[][] {
+  const groups = new Map<string, string[]>();
+  for (const testCase of testCases) {
+    const { project } = splitProjectFromName(decodeURIComponent(testCase));
+    const key = project ?? "";
+    groups.set(key, [...(groups.get(key) || []), testCase]);
+  }
+  return groups.size > 0 ? Array.from(groups.values()) : [testCases];
+}
+
+// 拆分运行时每次运行使用独立的 JSON 报告文件，只有一次运行时沿用原文件名
+export function getChunkJsonName(jsonName: string, index: number, total: number): string {
+  if (total <= 1) {
+    return jsonName;
+  }
+  return jsonName.replace(/(\.json)?$/, `_chunk${index + 1}$1`);
+}
+
+// 合并多次运行的结果，同一用例的结果按运行顺序追加
+export function mergeSpecResults(
+  target: Record<string, SpecResult[]>,
+  source: Record<string, SpecResult[]>,
+): Record<string, SpecResult[]> {
+  for (const [testCase, results] of Object.entries(source)) {
+    target[testCase] = [...(target[testCase] || []), ...results];
+  }
+  return target;
+}
+
+// 一次 Playwright 运行：caseLists 为本次运行的文件分组，jsonName 为本次运行独立的 JSON 报告文件，
+// configFile 为分组所属的配置文件
+export interface RunPlan {
+  caseLists: Record<string, string[]>;
+  jsonName: string;
+  configFile: string | null;
+}
+
+// 安排文件分组的运行：不同 project 的用例分别运行，选择的用例较多的分组拆分为多次运行；TESTSOLAR_TTP_COMBINEFILES 为 "1" 时，
+// 可以合并的分组在不超过单次运行用例数量和名称长度限制的前提下合并为一次运行。运行顺序与分组顺序一致。
+// configs 为运行前读取的配置文件列表（见 getPlaywrightConfigs），多配置时按用例路径找到所属的配置文件
+export function planRuns(
+  caseLists: Record<string, string[]>,
+  configs: string[] = [],
+): RunPlan[] {
+  const combineFiles = process.env.TESTSOLAR_TTP_COMBINEFILES === "1";
+  const chunkSize = getChunkSize();
+  const runs: RunPlan[] = [];
+  // 每个合并键当前仍可继续加入分组的运行
+  const openRuns = new Map<string, RunPlan>();
+  let combinedCount = 0;
+
+  for (const [casePath, testCases] of Object.entries(caseLists)) {
+    const baseName = casePath.replace(/[/:]/g, "_") + "_pid_" + process.pid + ".json";
+    const configFile = findConfigForPath(casePath, configs);
+    const chunks = groupTestCasesByProject(testCases).flatMap(chunkTestCases);
+    for (const [index, chunk] of chunks.entries()) {
+      const key = combineFiles ? getCombineKey(casePath, chunk, configFile) : null;
+      if (key === null) {
+        runs.push({
+          caseLists: { [casePath]: chunk },
+          jsonName: getChunkJsonName(baseName, index, chunks.length),
+          configFile,
+        });
+        continue;
       }
-    } else {
-      if (runAllCases) {
-        command = `export PLAYWRIGHT_JSON_OUTPUT_NAME=${jsonName} && npx playwright test ./${casePath}/ --reporter=json ${traceOption} ${workersOption} ${outputOption} ${extraArgs}`;
-      } else {
-        command = `npx playwright test ${casePath} ${grepPattern} --reporter=json ${traceOption} ${workersOption} ${outputOption} ${extraArgs} > ${jsonName}`;
+
+      const open = openRuns.get(key);
+      const planned = open ? Object.values(open.caseLists).flat() : [];
+      const fits =
+        (chunkSize === 0 || planned.length + chunk.length <= chunkSize) &&
+        getNamesLength(planned) + getNamesLength(chunk) <= MAX_CHUNK_NAME_LENGTH;
+      if (open && fits && !open.caseLists[casePath]) {
+        open.caseLists[casePath] = chunk;
+        continue;
       }
+      combinedCount++;
+      const run = {
+        caseLists: { [casePath]: chunk },
+        jsonName: `combined_${combinedCount}_pid_${process.pid}.json`,
+        configFile,
+      };
+      runs.push(run);
+      openRuns.set(key, run);
     }
   }
+  return runs;
+}
 
-  // 生成测试标识符
-  for (const testcase of testCases) {
-    testIdentifiers.push(`${casePath}?${testcase}`);
+// 生成一次运行的命令，只有一个文件分组时与按文件运行一致
+export function generateRunCommands(
+  run: RunPlan,
+): { command: Command; testIdentifiers: string[] } {
+  const entries = Object.entries(run.caseLists);
+  if (entries.length === 1) {
+    const [casePath, testCases] = entries[0];
+    return generateCommands(casePath, testCases, run.jsonName, run.configFile);
   }
+  return generateCombinedCommands(run.caseLists, run.jsonName, run.configFile);
+}
 
-  log.info(`Generated command for test cases: ${command}`);
-  return { command, testIdentifiers };
+// 读取同时运行的 Playwright 进程数量，默认为 1，即逐个运行
+export function getConcurrency(): number {
+  const parsed = Number(process.env.TESTSOLAR_TTP_CONCURRENCY || "1");
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : 1;
+}
+
+// 最多同时执行 concurrency 个任务，按任务顺序启动，返回与任务顺序一致的结果
+export async function runWithConcurrency<T>(
+  tasks: (() => Promise<T>)[],
+  concurrency: number,
+): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, tasks.length) }, () => worker()),
+  );
+  return results;
 }
 
 // 处理文件路径，移除项目路径前缀
@@ -489,22 +1636,75 @@ function readReportTzOffsetMs(): number {
   return min * 60 * 1000;
 }
 
+// 获取用例结论，JSON 报告中没有时按与 Playwright 相同的规则计算：全部跳过为 skipped，
+// 没有不符合预期的执行为 expected，全部不符合预期为 unexpected，重试后才符合预期为 flaky
+export function getTestOutcome(test: Test): string {
+  if (test.status) {
+    return test.status;
+  }
+  const results = test.results || [];
+  if (results.every((result) => result.status === "skipped")) {
+    return "skipped";
+  }
+  const expectedStatus = test.expectedStatus || "passed";
+  const failures = results.filter(
+    (result) => result.status !== "skipped" && result.status !== expectedStatus,
+  );
+  if (failures.length === 0) {
+    return "expected";
+  }
+  return failures.length === results.length ? "unexpected" : "flaky";
+}
+
+// 转换 test.step() 的执行结果。JSON 报告中的步骤没有开始时间，按同一层级的步骤依次执行估算：
+// 第一个步骤从父步骤（或用例）开始时开始，之后的步骤从前一个步骤结束时开始
+export function parseResultSteps(
+  steps: ResultStep[] | undefined,
+  parentStartTime: number,
+): SpecStep[] {
+  let cursor = parentStartTime;
+  return (steps || []).map((step) => {
+    const [startTime, endTime] = step.startTime
+      ? parseTimeStamp(step.startTime, step.duration)
+      : [cursor, cursor + step.duration / 1000];
+    cursor = endTime;
+    const error = step.error
+      ? step.error.stack || step.error.message || step.error.value || "Unknown error"
+      : "";
+    return {
+      title: step.title,
+      startTime,
+      endTime,
+      error,
+      steps: parseResultSteps(step.steps, startTime),
+    };
+  });
+}
+
 // 解析 JSON 内容并返回用例结果
 export function parseJsonContent(
   projPath: string,
   data: Data,
   rootDir: string | null = null,
+  attachmentsPath: string | null = null,
 ): Record<string, SpecResult[]> {
   log.info("开始解析 JSON 内容...");
   const rootPath = data.config.rootDir || rootDir;
   log.info(`使用根路径: ${rootPath}`);
   const caseResults: Record<string, SpecResult[]> = {};
+  const multiProject = isMultiProject(data);
 
   // 解析 suites 数组并处理用例结果
-  const parseSuites = (suites: Suite[], currentRootPath: string | null) => {
+  const parseSuites = (
+    suites: Suite[],
+    currentRootPath: string | null,
+    suitePath: string[],
+  ) => {
     log.info(`正在解析 suites。suites 数量: ${suites.length}`);
     for (const suite of suites) {
-      const desc = suite.title === suite.file ? "" : suite.title;
+      // 文件级 suite 的标题就是文件名，不计入 describe 层级
+      const currentPath =
+        suite.title === suite.file ? suitePath : [...suitePath, suite.title];
       log.info(`正在处理 suite: ${suite.title}`);
 
       if (suite.specs) {
@@ -516,29 +1716,26 @@ export function parseJsonContent(
             projPath,
             `${currentRootPath}/${spec.file}`,
           );
-          const specName = `${specFile}?${desc ? desc + " " : ""}${specTitle}`;
+          const specCaseName = joinCaseTitle(currentPath, specTitle);
+          const specName = `${specFile}?${specCaseName}`;
           log.info(`Spec 名称: ${specName}`);
-          let specResult: SpecResult | null = null;
-
           if (spec.tests) {
             log.info(`发现 tests。tests 数量: ${spec.tests.length}`);
             for (const test of spec.tests) {
-              let owner: string | null = null;
-              let description: string | null = null;
-
-              if (test.annotations) {
-                for (const annotation of test.annotations) {
-                  if (annotation.owner) {
-                    owner = annotation.owner;
-                  }
-                  if (annotation.description) {
-                    description = annotation.description;
-                  }
-                }
-              }
+              let specResult: SpecResult | null = null;
+              // 多 project 时按 projectId 区分用例，与加载阶段生成的用例名称保持一致
+              const testName = multiProject
+                ? `${specFile}?${addProjectPrefix(specCaseName, getProjectName(test))}`
+                : specName;
+              const annotationAttributes = mapAnnotationsToAttributes(
+                test.annotations || [],
+              );
+              const owner = annotationAttributes.owner ?? null;
+              const description = annotationAttributes.description ?? null;
 
               const results = test.results;
               const specProjectId = test.projectId;
+              const attempts: SpecAttempt[] = [];
               log.info(`原始测试用例结果: ${JSON.stringify(results)}`);
               for (const result of results) {
                 const [specStartTime, specEndTime, duration] = parseTimeStamp(
@@ -585,74 +1782,59 @@ export function parseJsonContent(
                 }
 
 
-                // 处理附件
-                const testcaseAttachments: Attachment[] = [];
-                if (result.attachments && result.attachments.length > 0) {
-                  // 直接使用系统临时目录
-                  const targetDir = os.tmpdir();
-                
-                  for (const attachment of result.attachments) {
-                    const attachmentName = attachment.name;
-                    const attachmentPath = attachment.path;
-                    const contentType = attachment.contentType || "";
-                    
-                    if ((["screenshot", "video", "trace"].includes(attachmentName) || contentType.startsWith("image/")) && attachmentPath) {
-                      try {
-                        // 获取原始文件名和扩展名
-                        const originalName = path.basename(attachmentPath);
-                        const ext = path.extname(originalName);
-                        const nameWithoutExt = path.basename(originalName, ext);
-                        
-                        // 添加时间戳创建新文件名，确保唯一性
-                        const timestamp = new Date().getTime();
-                        const fileName = `${nameWithoutExt}_${timestamp}${ext}`;
-                        
-                        // 构建新的文件路径
-                        const newPath = path.join(targetDir, fileName);
-                        
-                        // 检查源文件是否存在
-                        if (fs.existsSync(attachmentPath)) {
-                          // 复制文件到临时目录
-                          fs.copyFileSync(attachmentPath, newPath);
-                          testcaseAttachments.push(
-                            new Attachment(fileName, newPath, AttachmentType.FILE)
-                          );
-                        } else {
-                          // 源文件不存在，使用原路径
-                          testcaseAttachments.push(
-                            new Attachment(originalName, attachmentPath, AttachmentType.FILE)
-                          );
-                        }
-                      } catch (error) {
-                        const message = error instanceof Error ? error.message : "Unknown error";
-                        log.error(`复制文件 ${attachmentPath} 失败: ${message}`);
-                      }
-                    }
-                  }
-                }
-                
-                specResult = {
-                  projectID: specProjectId,
+                // 保存所有附件，未指定附件目录时保存到系统临时目录
+                const testcaseAttachments = saveAttachments(
+                  result.attachments || [],
+                  getAttachmentDir(
+                    attachmentsPath ?? os.tmpdir(),
+                    `${testName}\n${specProjectId}\n${result.retry ?? attempts.length}\n${result.startTime}`,
+                  ),
+                );
+
+                attempts.push({
+                  retry: result.retry ?? attempts.length,
                   result: result.status,
                   duration: duration,
                   startTime: specStartTime,
                   endTime: specEndTime,
                   message: specErrorMsg,
                   content: specErrorCtx, // 现在包含错误、stdout和stderr
+                  attachments: testcaseAttachments,
+                  steps: parseResultSteps(result.steps, specStartTime),
+                  errors: (result.errors || []).map(parsePlaywrightError),
+                });
+              }
+
+              // 用例结果取最后一次执行，每次执行（包括重试）的结果都保留在 attempts 中
+              const lastAttempt = attempts[attempts.length - 1];
+              if (lastAttempt) {
+                specResult = {
+                  projectID: specProjectId,
+                  result: lastAttempt.result,
+                  duration: lastAttempt.duration,
+                  startTime: lastAttempt.startTime,
+                  endTime: lastAttempt.endTime,
+                  message: lastAttempt.message,
+                  content: lastAttempt.content,
                   owner: owner,
                   description: description,
-                  attachments: testcaseAttachments,
+                  attributes: annotationAttributes,
+                  line: spec.line,
+                  column: spec.column,
+                  attachments: lastAttempt.attachments,
+                  attempts,
+                  outcome: getTestOutcome(test),
                 };
               }
-            }
 
-            if (!caseResults[specName]) {
-              log.info(`为 ${specName} 添加新的 spec 结果`);
-              caseResults[specName] = specResult ? [specResult] : [];
-            } else {
-              if (specResult) {
-                log.info(`为 ${specName} 追加 spec 结果`);
-                caseResults[specName].push(specResult);
+              if (!caseResults[testName]) {
+                log.info(`为 ${testName} 添加新的 spec 结果`);
+                caseResults[testName] = specResult ? [specResult] : [];
+              } else {
+                if (specResult) {
+                  log.info(`为 ${testName} 追加 spec 结果`);
+                  caseResults[testName].push(specResult);
+                }
               }
             }
           }
@@ -660,12 +1842,12 @@ export function parseJsonContent(
 
         if (suite.suites) {
           log.info(`正在处理 suite 的嵌套 suites: ${suite.title}`);
-          parseSuites(suite.suites, currentRootPath);
+          parseSuites(suite.suites, currentRootPath, currentPath);
         }
       }
     };
   }
-  parseSuites(data.suites, rootPath);
+  parseSuites(data.suites, rootPath, []);
 
   log.info("完成 JSON 内容解析。");
   return caseResults;
@@ -676,16 +1858,22 @@ export function parseJsonFile(
   projPath: string,
   jsonFile: string,
   cases: string[],
+  attachmentsPath: string | null = null,
 ): Record<string, SpecResult[]> {
   log.info(
     `function parseJsonFile: ${process.env.PLAYWRIGHT_JSON_OUTPUT_NAME}`,
   );
   const data = JSON.parse(fs.readFileSync(jsonFile, "utf-8"));
-  const result = parseJsonContent(projPath, data);
+  const result = parseJsonContent(projPath, data, null, attachmentsPath);
 
   log.info(`Parse result from json: ${JSON.stringify(result, null, 2)}`);
   if (result && Object.keys(result).length > 0) {
     return result;
+  } else if (getShardConfig()?.mode === "playwright" && (data.errors || []).length === 0) {
+    // 由 Playwright 划分分片时，用例较少的运行在当前分片中可能没有任何用例，报告中既没有用例也没有错误。
+    // 这些用例由其他分片运行，不按错误上报，避免覆盖其他分片的结果
+    log.info(`No test cases in current shard: ${jsonFile}`);
+    return {};
   } else {
     // 如果 result 为空，则调用 parseErrorCases 方法
     const testErrorResults = parseErrorCases(data, cases);
@@ -713,18 +1901,53 @@ export function createTempDirectory(): string {
 // 执行命令列表并上报结果
 export async function executeCommands(
   projPath: string,
-  command: string,
+  command: Command,
   cases: string[],
   jsonFile: string,  // 接收jsonFile作为参数
   attachmentsPath: string,
+  onResults?: (results: Record<string, SpecResult[]>) => void,
 ): Promise<Record<string, SpecResult[]>> {
   const results: Record<string, SpecResult[]> = {};
 
-  const { stdout, stderr } = await executeCommand(command);
+  // 注入了实时结果 reporter 时，运行过程中每读到一条用例结果就回调 onResults
+  const streamFile = command.env.TESTSOLAR_TTP_STREAMFILE;
+  const stopWatching =
+    streamFile && onResults
+      ? watchStreamFile(streamFile, (line) => {
+          try {
+            onResults(parseJsonContent(projPath, JSON.parse(line) as Data, null, attachmentsPath));
+          } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            log.error(`解析实时用例结果失败: ${message}`);
+          }
+        })
+      : null;
+
+  // 默认不限制运行时间
+  const timeoutMs = getTimeoutMs("TESTSOLAR_TTP_RUNTIMEOUT");
+  const startTime = Date.now() / 1000;
+  const { stdout, stderr, timedOut } = await executeCommand(command, timeoutMs);
+  if (streamFile && stopWatching) {
+    stopWatching();
+    fs.rmSync(streamFile, { force: true });
+  }
   log.info(
-    `Run cmdline: ${command} \n Run stdout: ${stdout}\nRun stderr: ${stderr}`,
+    `Run cmdline: ${formatCommand(command)} \n Run stdout: ${stdout}\nRun stderr: ${stderr}`,
   );
 
+  if (timedOut) {
+    const message = createTimeoutMessage("run", formatCommand(command), timeoutMs, stdout, stderr);
+    log.error(message);
+    return createTimeoutResults(projPath, jsonFile, cases, startTime, message, attachmentsPath);
+  }
+
+
+  // 分片运行的 blob 报告拷贝到附件目录
+  const blobFile = command.env.PLAYWRIGHT_BLOB_OUTPUT_FILE;
+  if (blobFile && fs.existsSync(blobFile)) {
+    fs.copyFileSync(blobFile, path.join(attachmentsPath, path.basename(blobFile)));
+    log.info(`Blob report copied to ${attachmentsPath}`);
+  }
 
   // 检查 JSON 文件是否存在
   if (!fs.existsSync(jsonFile)) {
@@ -739,23 +1962,167 @@ export async function executeCommands(
   }
 
   // 解析 JSON 文件并处理结果
-  const testResults = parseJsonFile(projPath, jsonFile, cases);
+  const testResults = parseJsonFile(projPath, jsonFile, cases, attachmentsPath);
   Object.assign(results, testResults);
   return testResults;
 }
 
+// 运行超时时生成用例结果：进程结束前已经写出的 JSON 报告中的结果照常上报，其余用例按失败上报并附上超时说明
+function createTimeoutResults(
+  projPath: string,
+  jsonFile: string,
+  cases: string[],
+  startTime: number,
+  message: string,
+  attachmentsPath: string,
+): Record<string, SpecResult[]> {
+  let results: Record<string, SpecResult[]> = {};
+  if (fs.existsSync(jsonFile)) {
+    try {
+      results = parseJsonContent(
+        projPath,
+        JSON.parse(fs.readFileSync(jsonFile, "utf-8")),
+        null,
+        attachmentsPath,
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      log.error(`解析超时前的 JSON 报告 ${jsonFile} 失败: ${errorMessage}`);
+    }
+  }
+
+  const endTime = Date.now() / 1000;
+  for (const testCase of cases) {
+    const hasResult = Object.keys(results).some((key) =>
+      matchesTestIdentifier(testCase, key),
+    );
+    if (!hasResult) {
+      results[testCase] = [
+        {
+          projectID: null,
+          result: "failed",
+          duration: endTime - startTime,
+          startTime,
+          endTime,
+          message: message.split("\n")[0],
+          content: message,
+          owner: null,
+          description: null,
+        },
+      ];
+    }
+  }
+  return results;
+}
+
+// 运行阶段判断选择器是否匹配待运行的条目（"path" 或 "path?name"），与加载阶段一致：
+// 正则选择器按用例名称匹配，glob 选择器按文件路径匹配，不带用例名称的选择器匹配文件或目录，其余按名称包含匹配
+function matchesRunSelector(selector: string, entry: string): boolean {
+  if (isRegexSelector(selector)) {
+    const regex = parseRegexSelector(selector);
+    return regex !== null && matchesRegexSelector(regex, entry);
+  }
+  if (isGlobSelector(selector)) {
+    return matchesGlobSelector(selector, entry);
+  }
+  if (!selector.includes("?")) {
+    const selectorPath = selector.replace(/\/$/, "");
+    const entryPath = entry.split("?")[0];
+    return entryPath === selectorPath || entryPath.startsWith(`${selectorPath}/`);
+  }
+  return decodeURIComponent(entry).includes(normalizeSuitePath(selector));
+}
+
+// 运行阶段解析选择器语法：glob 选择器展开为匹配的用例文件，"!" 开头的选择器从其余选择器中排除。
+// 存在排除选择器时目录先展开为其中的用例文件，以便按文件排除
+function resolveRunSelectors(testcases: string[]): string[] {
+  const includeSelectors: string[] = [];
+  const excludeSelectors: string[] = [];
+  for (const testcase of testcases) {
+    const excluded = parseExcludeSelector(testcase);
+    if (excluded !== null) {
+      excludeSelectors.push(excluded);
+    } else {
+      includeSelectors.push(testcase);
+    }
+  }
+  if (excludeSelectors.length === 0 && !includeSelectors.some(isGlobSelector)) {
+    return includeSelectors;
+  }
+
+  let specFiles: string[] | null = null;
+  const listSpecFiles = () =>
+    (specFiles ??= scanPlaywrightTestFiles(process.cwd()).map((file) =>
+      path.relative(process.cwd(), file).split(path.sep).join("/"),
+    ));
+
+  // 只有排除选择器时排除范围为所有用例文件
+  const selectors =
+    includeSelectors.length > 0 ? includeSelectors : listSpecFiles();
+  const expanded = selectors.flatMap((selector) => {
+    if (isGlobSelector(selector)) {
+      const [globPath, ...nameParts] = selector.split("?");
+      const name = nameParts.join("?");
+      return listSpecFiles()
+        .filter((file) => matchesGlobSelector(globPath, file))
+        .map((file) => (name ? `${file}?${name}` : file));
+    }
+    if (
+      excludeSelectors.length > 0 &&
+      !selector.includes("?") &&
+      isFileOrDirectory(selector) === -1
+    ) {
+      return listSpecFiles().filter((file) => matchesRunSelector(selector, file));
+    }
+    return [selector];
+  });
+
+  const resolved = expanded.filter(
+    (selector) =>
+      !excludeSelectors.some((excluded) => matchesRunSelector(excluded, selector)),
+  );
+  log.info(`Resolved run selectors: ${JSON.stringify(resolved)}`);
+  return resolved;
+}
+
+// 运行阶段将正则选择器展开为匹配的具体用例。Playwright 的 grep 匹配的是 project、文件路径、describe 层级、
+// 标题和标签拼接后的字符串，与加载阶段只匹配用例名称不一致（例如 "^checkout" 不会匹配任何用例），
+// 因此按列出的用例名称匹配后，以具体用例的锚定名称运行。排除选择器中的正则不需要展开
+export function expandRegexSelectors(selectors: string[], testcases: string[]): string[] {
+  const expanded = selectors.flatMap((selector) => {
+    if (!isRegexSelector(selector)) {
+      return [selector];
+    }
+    const regex = parseRegexSelector(selector);
+    const matched = regex ? testcases.filter((name) => matchesRegexSelector(regex, name)) : [];
+    if (matched.length === 0) {
+      log.warn(`正则选择器 ${selector} 没有匹配到用例`);
+    }
+    // 列出的用例名称部分经过编码，运行时的选择器使用解码后的名称
+    return matched.map((name) => {
+      const index = name.indexOf("?");
+      return `${name.substring(0, index)}?${decodeURIComponent(name.substring(index + 1))}`;
+    });
+  });
+  return Array.from(new Set(expanded));
+}
+
 export function groupTestCasesByPath(
   testcases: string[],
 ): Record<string, string[]> {
   const groupedTestCases: Record<string, string[]> = {};
 
-  testcases.forEach((testcase) => {
+  resolveRunSelectors(testcases).forEach((testcase) => {
     let path: string;
     let name: string = "";
 
     // 检查测试用例是否包含问号
     const questionMarkIndex = testcase.indexOf("?");
-    if (questionMarkIndex !== -1) {
+    if (isRegexSelector(testcase)) {
+      // 正则选择器不限定文件，通过 --grep 在所有用例中匹配
+      path = "";
+      name = testcase;
+    } else if (questionMarkIndex !== -1) {
       // 如果有问号，分割路径和名称
       path = testcase.substring(0, questionMarkIndex);
       name = testcase.substring(questionMarkIndex + 1);
@@ -805,9 +2172,99 @@ export function getLogLevelByResultType(resultType: ResultType): LogLevel {
   return LogLevel.INFO;
 }
 
+// 去掉运行结果名称中的 project 前缀，例如 "a.spec.ts?[firefox] login" 为 "a.spec.ts?login"
+function stripProjectFromTestCase(testCase: string): string {
+  const index = testCase.indexOf("?");
+  if (index === -1) {
+    return testCase;
+  }
+  const { name } = splitProjectFromName(testCase.substring(index + 1));
+  return `${testCase.substring(0, index + 1)}${name}`;
+}
+
+// 判断运行结果是否属于某个标识符：除精确匹配外，不带 project 前缀的标识符匹配所有 project 的结果，
+// "path?" 表示运行整个文件，"?re:/pattern/" 或 "path?re:/pattern/" 表示按用例名称正则匹配
+function matchesTestIdentifier(identifier: string, testCase: string): boolean {
+  if (identifier === testCase || identifier === stripProjectFromTestCase(testCase)) {
+    return true;
+  }
+  const index = identifier.indexOf("?");
+  if (index === -1) {
+    return false;
+  }
+  const identifierPath = identifier.substring(0, index);
+  const name = identifier.substring(index + 1);
+  if (identifierPath !== "" && identifierPath !== testCase.split("?")[0]) {
+    return false;
+  }
+  if (name === "") {
+    return identifierPath !== "";
+  }
+  const regex = parseRegexSelector(name);
+  return regex !== null && matchesRegexSelector(regex, testCase);
+}
+
+// 将 test.step() 的步骤树按深度优先展开为 TestCaseStep，嵌套步骤的名称带上父步骤的名称，
+// 层级之间使用 " › " 分隔。出错的步骤为失败，并带上一条错误日志
+function createPlaywrightSteps(steps: SpecStep[], parentTitle: string): TestCaseStep[] {
+  return steps.flatMap((step) => {
+    const title = parentTitle ? `${parentTitle}${SUITE_PATH_SEPARATOR}${step.title}` : step.title;
+    const startTime = new Date(step.startTime * 1000).toISOString();
+    const endTime = new Date(step.endTime * 1000).toISOString();
+    const resultType = step.error ? ResultType.FAILED : ResultType.SUCCEED;
+    const logs = step.error
+      ? [new TestCaseLog(startTime, LogLevel.ERROR, step.error, [], undefined, undefined)]
+      : [];
+    return [
+      new TestCaseStep(startTime, endTime, title, resultType, logs),
+      ...createPlaywrightSteps(step.steps, title),
+    ];
+  });
+}
+
+// 将日志追加到最后一个步骤中
+function appendStepLogs(steps: TestCaseStep[], logs: TestCaseLog[]): TestCaseStep[] {
+  const last = steps[steps.length - 1];
+  return [
+    ...steps.slice(0, -1),
+    new TestCaseStep(last.StartTime, last.EndTime, last.Title, last.ResultType, [...last.Logs, ...logs]),
+  ];
+}
+
+// 每个错误生成一条带有结构化错误的错误日志，时间为执行结束的时间
+function createErrorLogs(errors: SpecError[], time: string): TestCaseLog[] {
+  return errors.map(
+    (error) =>
+      new TestCaseLog(time, LogLevel.ERROR, error.message, [], error.assertError, error.runtimeError),
+  );
+}
+
+// 生成单次执行的步骤，第一次执行为 "Run"，重试为 "Retry #n"，之后是该次执行中 test.step() 的步骤
+function createAttemptSteps(attempt: SpecAttempt): TestCaseStep[] {
+  const startTime = new Date(attempt.startTime * 1000).toISOString();
+  const endTime = new Date(attempt.endTime * 1000).toISOString();
+  const resultType = mapPlaywrightStatus(attempt.result);
+  const testLog = new TestCaseLog(
+    startTime,
+    getLogLevelByResultType(resultType),
+    attempt.content,
+    attempt.attachments,
+    undefined,
+    undefined,
+  );
+  const logs = [testLog, ...createErrorLogs(attempt.errors || [], endTime)];
+  const title = attempt.retry > 0 ? `Retry #${attempt.retry}` : "Run";
+  return [
+    new TestCaseStep(startTime, endTime, title, resultType, logs),
+    ...createPlaywrightSteps(attempt.steps || [], title),
+  ];
+}
+
+// 生成用例结果，reportMissing 为 false 时不记录没有结果的用例（实时上报时只有部分用例有结果）
 export function createTestResults(
   output: Record<string, SpecResult[]>,
   testIdentifiers: string[],
+  reportMissing: boolean = true,
 ): TestResult[] {
   const testResults: TestResult[] = [];
   const casePrefix = getTestcasePrefix();
@@ -817,16 +2274,15 @@ export function createTestResults(
   const runAllCases = process.env.TESTSOLAR_TTP_RUNALLCASES?.toLowerCase() === "1" || 
                       process.env.TESTSOLAR_TTP_RUNALLCASES?.toLowerCase() === "true";
   
-  // 首先找出参考失败用例（output中的key不在testIdentifiers中的）
-  let referenceFailedTest: TestResult | null = null;
-  
   // 处理output中的所有测试用例
   for (const [testCase, results] of Object.entries(output)) {
     // 构建完整的测试路径
     const fullTestPath = `${casePrefix}${testCase}`;
     
     // 判断当前测试用例是否在testIdentifiers中
-    let isInTestIdentifiers = testIdentifiers.includes(testCase);
+    let isInTestIdentifiers = testIdentifiers.some((identifier) =>
+      matchesTestIdentifier(identifier, testCase),
+    );
     
     // 在 fileMode 下，需要检查测试用例是否属于指定的文件
     if (fileMode && !isInTestIdentifiers) {
@@ -841,10 +2297,49 @@ export function createTestResults(
     
     // 处理每个结果
     for (const result of results) {
-      const testPath = encodeQueryParams(fullTestPath);
-      const test = new TestCase(testPath, { "owner": result.owner || "", "description": result.description || "" });
+      let matched = isInTestIdentifiers;
+      let testPath = encodeQueryParams(fullTestPath);
+
+      // "file:line" 标识符按用例所在行匹配，结果以该标识符上报
+      if (!matched && result.line !== undefined) {
+        const lineIdentifier = `${testCase.split('?')[0]}:${result.line}`;
+        if (testIdentifiers.includes(lineIdentifier)) {
+          matched = true;
+          testPath = `${casePrefix}${lineIdentifier}`;
+        }
+      }
+
+      // 名称重复的用例按所在行（列）匹配带位置后缀的标识符，不带 project 前缀的标识符匹配所有 project
+      if (!matched && result.line !== undefined) {
+        const suffixes = [
+          formatDuplicateSuffix(result.line),
+          formatDuplicateSuffix(result.line, result.column),
+        ];
+        for (const suffix of suffixes) {
+          if (
+            testIdentifiers.includes(`${testCase}${suffix}`) ||
+            testIdentifiers.includes(`${stripProjectFromTestCase(testCase)}${suffix}`)
+          ) {
+            matched = true;
+            testPath = encodeQueryParams(`${casePrefix}${testCase}${suffix}`);
+            break;
+          }
+        }
+      }
+
+      // 有重试时记录执行次数，outcome 为 flaky 表示重试后才通过的不稳定用例
+      const attempts = result.attempts && result.attempts.length > 1 ? result.attempts : null;
+      const test = new TestCase(testPath, {
+        ...(result.attributes || {}),
+        "owner": result.owner || "",
+        "description": result.description || "",
+        ...(result.outcome ? { outcome: result.outcome } : {}),
+        ...(attempts ? { attempts: String(attempts.length) } : {}),
+      });
       
-      const startTime = new Date(result.startTime * 1000).toISOString();
+      const startTime = new Date(
+        (attempts ? attempts[0].startTime : result.startTime) * 1000,
+      ).toISOString();
       const endTime = new Date(result.endTime * 1000).toISOString();
       const resultType = mapPlaywrightStatus(result.result);
       const message = result.message || "";
@@ -860,71 +2355,75 @@ export function createTestResults(
         undefined,
       );
 
-      const testStep = new TestCaseStep(
-        startTime,
-        endTime,
-        "Step title",
-        resultType,
-        [testLog],
-      );
+      const lastAttempt = result.attempts?.[result.attempts.length - 1];
+      const testLogs = [testLog, ...createErrorLogs(lastAttempt?.errors || [], endTime)];
+      const playwrightSteps = createPlaywrightSteps(lastAttempt?.steps || [], "");
 
+      // 有重试时每次执行单独作为一个步骤，保留每次执行的日志和附件；
+      // test.step() 的步骤跟在所属执行的步骤之后。只执行一次时直接上报 test.step() 的步骤，
+      // 用例的日志和附件放在最后一个步骤中；没有步骤时生成一个步骤承载日志
       const testResult = new TestResult(
         test,
         startTime,
         endTime,
         resultType,
         message,
-        [testStep],
+        attempts
+          ? attempts.flatMap(createAttemptSteps)
+          : playwrightSteps.length > 0
+            ? appendStepLogs(playwrightSteps, testLogs)
+            : [new TestCaseStep(startTime, endTime, "Step title", resultType, testLogs)],
       );
       
-      // 如果该测试不在testIdentifiers中且结果是失败的，将其作为参考失败用例
-      if (!isInTestIdentifiers && resultType === ResultType.FAILED && !referenceFailedTest) {
-        referenceFailedTest = testResult;
-      }
-      
       // 如果该测试在testIdentifiers中，将结果添加到testResults
-      if (isInTestIdentifiers) {
+      if (matched) {
         testResults.push(testResult);
       }
     }
   }
 
-  // 确保每个testIdentifier都有对应的测试结果
-  for (const identifier of testIdentifiers) {
-    // 检查是否已经在结果中
+  // 用例按精确名称选择，不再用其他用例的失败结果代替没有结果的用例，
+  // 而是按失败上报并说明 Playwright 没有运行该用例，避免用例一直处于运行中状态
+  for (const identifier of reportMissing ? testIdentifiers : []) {
     const hasResult = testResults.some(result => {
       // 去除casePrefix，然后解码比较
       const decodedPath = decodeURIComponent(result.Test.Name.replace(casePrefix, ''));
-      return decodedPath === identifier;
+      // fileMode 下标识符为文件路径，文件中任一用例有结果即可
+      return matchesTestIdentifier(identifier, decodedPath) || decodedPath.split("?")[0] === identifier;
     });
-    
-    // 如果没有结果并且有参考失败用例，则创建一个相应的失败结果
-    if (!hasResult && referenceFailedTest) {
-      // 创建一个新的TestCase，使用identifier作为path
-      const fullIdentifierPath = encodeQueryParams(`${casePrefix}${identifier}`);
-      const newTest = new TestCase(fullIdentifierPath, {
-        owner: referenceFailedTest.Test.Attributes.owner,
-        description: referenceFailedTest.Test.Attributes.description
-      });
-      
-      // 创建一个新的TestResult，复制参考失败测试的其他属性
-      const newResult = new TestResult(
-        newTest,
-        referenceFailedTest.StartTime,
-        referenceFailedTest.EndTime,
-        ResultType.FAILED, // 确保是失败状态
-        `No test results found for this identifier: ${identifier}`, // 自定义消息
-        referenceFailedTest.Steps.slice() // 复制steps数组
-      );
-      
-      // 添加到结果数组
-      testResults.push(newResult);
+    // 正则选择器运行前无法确定具体用例，没有上报运行中状态，也不上报失败
+    if (!hasResult && !isRegexSelector(identifier.substring(identifier.indexOf("?") + 1))) {
+      log.warn(`No test results found for this identifier: ${identifier}`);
+      testResults.push(createMissingResult(identifier, casePrefix));
     }
   }
 
   return testResults;
 }
 
+// 为没有运行结果的用例生成失败结果，名称与上报运行中状态时一致，"path?" 表示整个文件
+function createMissingResult(identifier: string, casePrefix: string): TestResult {
+  const name = identifier.endsWith("?") ? identifier.slice(0, -1) : identifier;
+  const currentTime = new Date().toISOString();
+  const message = `Playwright 没有运行该用例: ${name}，请检查用例名称、标签或选择器是否与 Playwright 中的用例一致`;
+  const testLog = new TestCaseLog(
+    currentTime,
+    LogLevel.ERROR,
+    message,
+    [],
+    undefined,
+    undefined,
+  );
+  return new TestResult(
+    new TestCase(encodeQueryParams(`${casePrefix}${name}`), {}),
+    currentTime,
+    currentTime,
+    ResultType.FAILED,
+    message,
+    [new TestCaseStep(currentTime, currentTime, "Step title", ResultType.FAILED, [testLog])],
+  );
+}
+
 
 export function getTestcasePrefix() {
   const testcasePrefix = process.env.TESTSOLAR_TTP_TESTCASE_PREFIX || "";
@@ -990,11 +2489,35 @@ export function parsePlaywrightReport(jsonData: string): LoadError[] {
   }
 }
 
-// 扫描目录中的Playwright测试文件（排除node_modules）
-export function scanPlaywrightTestFiles(directory: string): string[] {
-  const testCases: string[] = [];
-  // 匹配Playwright测试文件的模式
-  const testPattern = /test\(['"`]/;
+// 从 --list 报告的 errors 中找出导入失败的用例文件，返回 用例文件 -> 错误信息。
+// 错误位置在用例文件引用的其他模块中时，按错误堆栈中出现的用例文件定位
+export function findFailedSpecFiles(
+  jsonData: string,
+  files: string[],
+): Record<string, string[]> {
+  const failedFiles: Record<string, string[]> = {};
+  let report: PlaywrightReport;
+  try {
+    report = JSON.parse(jsonData) as PlaywrightReport;
+  } catch (e) {
+    return failedFiles;
+  }
+  for (const error of report.errors || []) {
+    const errorFile = error.location?.file;
+    const matchedFiles =
+      errorFile && files.includes(errorFile)
+        ? [errorFile]
+        : files.filter((file) => (error.stack || error.message || "").includes(file));
+    for (const file of matchedFiles) {
+      (failedFiles[file] ||= []).push(error.message.split("\n")[0]);
+    }
+  }
+  return failedFiles;
+}
+
+// 递归列出目录中的所有文件（排除node_modules）
+function listFiles(directory: string): string[] {
+  const result: string[] = [];
 
   function readDirRecursive(dir: string) {
     // 如果路径中包含node_modules，则跳过该目录
@@ -1011,13 +2534,8 @@ export function scanPlaywrightTestFiles(directory: string): string[] {
 
         if (stat.isDirectory()) {
           readDirRecursive(fullPath);
-        } else if (file.endsWith(".spec.js") || file.endsWith(".spec.ts") || 
-                   file.endsWith(".test.js") || file.endsWith(".test.ts") ||
-                   file.endsWith(".e2e.js") || file.endsWith(".e2e.ts")) {
-          const content = fs.readFileSync(fullPath, "utf-8");
-          if (testPattern.test(content)) {
-            testCases.push(fullPath);
-          }
+        } else {
+          result.push(fullPath);
         }
       });
     } catch (error) {
@@ -1026,7 +2544,71 @@ export function scanPlaywrightTestFiles(directory: string): string[] {
   }
 
   readDirRecursive(directory);
-  return testCases;
+  return result;
+}
+
+// 根据文件名和内容判断是否像Playwright测试文件
+function isLikelyTestFile(filePath: string): boolean {
+  // 匹配Playwright测试文件的模式
+  const testPattern = /test\(['"`]/;
+  const file = path.basename(filePath);
+  if (file.endsWith(".spec.js") || file.endsWith(".spec.ts") || 
+      file.endsWith(".test.js") || file.endsWith(".test.ts") ||
+      file.endsWith(".e2e.js") || file.endsWith(".e2e.ts")) {
+    const content = fs.readFileSync(filePath, "utf-8");
+    return testPattern.test(content);
+  }
+  return false;
+}
+
+// 扫描目录中的Playwright测试文件（排除node_modules），
+// 存在 playwright 配置文件时按各 project 的 testDir/testMatch/testIgnore 匹配，
+// 按文件名规则识别出的用例文件不会被配置匹配到时返回 LoadError，同时返回静态解析的 project，没有配置文件时为 null。
+// configPath 默认为 directory 下的配置文件
+export function scanPlaywrightTestFilesByConfig(
+  directory: string,
+  configPath?: string,
+): {
+  files: string[];
+  loadErrors: LoadError[];
+  projects: ProjectMatchConfig[] | null;
+} {
+  const likelyTestFiles = listFiles(directory).filter(isLikelyTestFile);
+  const projects = configPath
+    ? resolveProjectConfigs(directory, configPath)
+    : resolveProjectConfigs(directory);
+  if (projects === null) {
+    return { files: likelyTestFiles, loadErrors: [], projects };
+  }
+
+  const files: string[] = [];
+  const testDirs = Array.from(new Set(projects.map((project) => project.testDir)));
+  for (const testDir of testDirs) {
+    for (const file of listFiles(testDir)) {
+      if (
+        !files.includes(file) &&
+        projects.some((project) => isTestFileForProject(file, project))
+      ) {
+        files.push(file);
+      }
+    }
+  }
+
+  const loadErrors = likelyTestFiles
+    .filter((file) => !files.includes(file))
+    .map(
+      (file) =>
+        new LoadError(
+          path.relative(directory, file),
+          "该文件看起来是 Playwright 用例文件，但不匹配 playwright 配置中任何 project 的 testDir/testMatch/testIgnore，Playwright 不会运行该文件",
+        ),
+    );
+  return { files, loadErrors, projects };
+}
+
+// 扫描目录中的Playwright测试文件（排除node_modules）
+export function scanPlaywrightTestFiles(directory: string): string[] {
+  return scanPlaywrightTestFilesByConfig(directory).files;
 }
 
 export async function createRunningTestResults(
@@ -1040,6 +2622,10 @@ export async function createRunningTestResults(
   
   // 遍历每个测试名称
   for (const name of names) {
+    // 正则选择器在运行前无法确定具体用例，不上报运行中状态
+    if (isRegexSelector(name)) {
+      continue;
+    }
     // 构建完整测试用例路径
     const fullTestCase = name ? `${path}?${name}` : path;
     
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Attachment, AttachmentType } from "testsolar-oss-sdk/src/testsolar_sdk/model/testresult";
+import {
+  getAttachmentDir,
+  getAttachmentFileName,
+  saveAttachments,
+} from "../src/playwrightx/attachments";
+
+let dir: string;
+
+describe("attachments", () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "pw-attachments-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("场景1: 附件名称按附件类型或原文件补充扩展名", () => {
+    expect(getAttachmentFileName({ name: "screenshot", contentType: "image/png", path: "/a/test-failed-1.png" }))
+      .toBe("screenshot.png");
+    expect(getAttachmentFileName({ name: "trace", contentType: "application/zip", path: "/a/trace.zip" }))
+      .toBe("trace.zip");
+    expect(getAttachmentFileName({ name: "api response", contentType: "application/json", body: "e30=" }))
+      .toBe("api_response.json");
+    expect(getAttachmentFileName({ name: "network.har", contentType: "application/json", body: "e30=" }))
+      .toBe("network.har.json");
+    expect(getAttachmentFileName({ name: "notes", contentType: "text/plain; charset=utf-8", body: "" }))
+      .toBe("notes.txt");
+    expect(getAttachmentFileName({ name: "blob", contentType: "application/x-custom", body: "" }))
+      .toBe("blob");
+    expect(getAttachmentFileName({ name: "output", contentType: "text/plain", path: "/a/output.dat" }))
+      .toBe("output.txt");
+    expect(getAttachmentFileName({ name: "dump", contentType: "application/octet-stream", path: "/a/dump.bin" }))
+      .toBe("dump.bin");
+  });
+
+  test("场景2: 写出 body、拷贝文件，名称重复时追加序号", () => {
+    const source = path.join(dir, "test-failed-1.png");
+    fs.writeFileSync(source, "png");
+    const targetDir = getAttachmentDir(dir, "a.spec.ts?login\n\n0\n2024-01-01T00:00:00Z");
+    const saved = saveAttachments(
+      [
+        { name: "screenshot", contentType: "image/png", path: source },
+        { name: "log", contentType: "text/plain", body: Buffer.from("first").toString("base64") },
+        { name: "log", contentType: "text/plain", body: Buffer.from("second").toString("base64") },
+        { name: "missing", contentType: "video/webm", path: "/not/exists/video.webm" },
+        { name: "empty", contentType: "text/plain" },
+      ],
+      targetDir,
+    );
+    expect(saved).toEqual([
+      new Attachment("screenshot.png", path.join(targetDir, "screenshot.png"), AttachmentType.FILE),
+      new Attachment("log.txt", path.join(targetDir, "log.txt"), AttachmentType.FILE),
+      new Attachment("log-1.txt", path.join(targetDir, "log-1.txt"), AttachmentType.FILE),
+      new Attachment("missing.webm", "/not/exists/video.webm", AttachmentType.FILE),
+    ]);
+    expect(fs.readFileSync(path.join(targetDir, "screenshot.png"), "utf-8")).toBe("png");
+    expect(fs.readFileSync(path.join(targetDir, "log.txt"), "utf-8")).toBe("first");
+    expect(fs.readFileSync(path.join(targetDir, "log-1.txt"), "utf-8")).toBe("second");
+  });
+
+  test("场景2.1: 没有扩展名的 body 附件按附件类型命名，text/uri-list 附件上报为链接", () => {
+    const targetDir = getAttachmentDir(dir, "a.spec.ts?login\n\n0\n2024-01-01T00:00:00Z");
+    const saved = saveAttachments(
+      [
+        { name: "payload", contentType: "application/json", body: Buffer.from('{"ok":true}').toString("base64") },
+        {
+          name: "report link",
+          contentType: "text/uri-list",
+          body: Buffer.from("# report\nhttps://example.com/report\n").toString("base64"),
+        },
+      ],
+      targetDir,
+    );
+    expect(saved).toEqual([
+      new Attachment("payload.json", path.join(targetDir, "payload.json"), AttachmentType.FILE),
+      new Attachment("report link", "https://example.com/report", AttachmentType.URL),
+    ]);
+    expect(fs.readFileSync(path.join(targetDir, "payload.json"), "utf-8")).toBe('{"ok":true}');
+  });
+
+  test("场景3: 不同执行的附件保存在不同的子目录中", () => {
+    const first = getAttachmentDir(dir, "a.spec.ts?login\n\n0\n2024-01-01T00:00:00Z");
+    expect(path.dirname(first)).toBe(path.join(dir, "results"));
+    expect(getAttachmentDir(dir, "a.spec.ts?login\n\n1\n2024-01-01T00:00:05Z")).not.toBe(first);
+    expect(getAttachmentDir(dir, "a.spec.ts?login\n\n0\n2024-01-01T00:00:00Z")).toBe(first);
+  });
+});
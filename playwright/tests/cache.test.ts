@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  buildLoadCache,
+  computeConfigHash,
+  diffLoadCache,
+  getLoadCachePath,
+  hashFile,
+  readLoadCache,
+  writeLoadCache,
+} from "../src/playwrightx/cache";
+import { ParsedTestcase } from "../src/playwrightx/utils";
+
+let projPath: string;
+
+function testcase(file: string, title: string): ParsedTestcase {
+  return {
+    name: `${file}?${title}`,
+    path: file,
+    tags: [],
+    attributes: {},
+  };
+}
+
+describe("load cache", () => {
+  beforeEach(() => {
+    projPath = fs.mkdtempSync(path.join(os.tmpdir(), "pw-cache-"));
+    fs.writeFileSync(path.join(projPath, "playwright.config.ts"), "export default {};");
+    fs.writeFileSync(path.join(projPath, "a.spec.ts"), "test('a', () => {});");
+    fs.writeFileSync(path.join(projPath, "b.spec.ts"), "test('b', () => {});");
+  });
+
+  afterEach(() => {
+    fs.rmSync(projPath, { recursive: true, force: true });
+    delete process.env.TESTSOLAR_TTP_LOADCACHEDIR;
+  });
+
+  test("场景1: 默认保存在项目的 .testsolar 目录，可以通过环境变量指定", () => {
+    expect(getLoadCachePath(projPath)).toBe(
+      path.join(projPath, ".testsolar", "playwright-load-cache.json"),
+    );
+    process.env.TESTSOLAR_TTP_LOADCACHEDIR = "cache";
+    expect(getLoadCachePath(projPath)).toBe(
+      path.join(projPath, "cache", "playwright-load-cache.json"),
+    );
+  });
+
+  test("场景2: 只有内容变化的文件需要重新加载", () => {
+    const configHash = computeConfigHash(projPath);
+    const fileHashes = {
+      "a.spec.ts": hashFile(path.join(projPath, "a.spec.ts")),
+      "b.spec.ts": hashFile(path.join(projPath, "b.spec.ts")),
+    };
+    const cachePath = getLoadCachePath(projPath);
+    writeLoadCache(
+      cachePath,
+      buildLoadCache(projPath, configHash, fileHashes, [
+        testcase("a.spec.ts", "a"),
+        testcase("b.spec.ts", "b"),
+      ]),
+    );
+
+    fs.writeFileSync(path.join(projPath, "b.spec.ts"), "test('b2', () => {});");
+    const cache = readLoadCache(cachePath, configHash)!;
+    expect(cache.files["a.spec.ts"].testcases).toEqual([testcase("a.spec.ts", "a")]);
+    expect(
+      diffLoadCache(cache, {
+        "a.spec.ts": hashFile(path.join(projPath, "a.spec.ts")),
+        "b.spec.ts": hashFile(path.join(projPath, "b.spec.ts")),
+        "c.spec.ts": "new",
+      }),
+    ).toEqual({ changed: ["b.spec.ts", "c.spec.ts"], unchanged: ["a.spec.ts"] });
+  });
+
+  test("场景3: 配置文件变化时缓存失效", () => {
+    const cachePath = getLoadCachePath(projPath);
+    writeLoadCache(
+      cachePath,
+      buildLoadCache(projPath, computeConfigHash(projPath), {}, []),
+    );
+    fs.writeFileSync(
+      path.join(projPath, "playwright.config.ts"),
+      "export default { testDir: 'e2e' };",
+    );
+    expect(readLoadCache(cachePath, computeConfigHash(projPath))).toBeNull();
+  });
+});
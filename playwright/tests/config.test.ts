@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  DEFAULT_TEST_MATCH,
+  findConfigForPath,
+  findPlaywrightConfigs,
+  getPlaywrightConfigs,
+  isTestFileForProject,
+  matchesFilePatterns,
+  resolveProjectConfigs,
+} from "../src/playwrightx/config";
+
+let projPath: string;
+
+function writeConfig(content: string, name: string = "playwright.config.ts") {
+  fs.writeFileSync(path.join(projPath, name), content);
+}
+
+describe("resolveProjectConfigs", () => {
+  beforeEach(() => {
+    projPath = fs.mkdtempSync(path.join(os.tmpdir(), "pw-config-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projPath, { recursive: true, force: true });
+  });
+
+  test("场景1: 没有配置文件时返回 null", () => {
+    expect(resolveProjectConfigs(projPath)).toBeNull();
+  });
+
+  test("场景2: 解析 defineConfig 中的顶层配置", () => {
+    writeConfig(`
+      import { defineConfig } from '@playwright/test';
+      export default defineConfig({
+        testDir: './e2e',
+        testMatch: '**/*.e2e.ts',
+        testIgnore: [/quarantine/, '**/fixtures/**'],
+      });
+    `);
+    const [project] = resolveProjectConfigs(projPath)!;
+    expect(project.testDir).toBe(path.join(projPath, "e2e"));
+    expect(project.testMatch).toEqual(["**/*.e2e.ts"]);
+    expect(project.testIgnore).toEqual([/quarantine/, "**/fixtures/**"]);
+  });
+
+  test("场景3: project 继承并覆盖顶层配置", () => {
+    writeConfig(`
+      const path = require('path');
+      const config = {
+        testDir: path.join(__dirname, 'tests'),
+        projects: [
+          { name: 'chromium' },
+          { name: 'api', testDir: 'api-tests', testMatch: /.*\\.api\\.ts/ },
+        ],
+      };
+      module.exports = config;
+    `, "playwright.config.js");
+    const projects = resolveProjectConfigs(projPath)!;
+    expect(projects.map((project) => project.name)).toEqual(["chromium", "api"]);
+    expect(projects[0].testDir).toBe(path.join(projPath, "tests"));
+    expect(projects[0].testMatch).toEqual([DEFAULT_TEST_MATCH]);
+    expect(projects[1].testDir).toBe(path.join(projPath, "api-tests"));
+    expect(projects[1].testMatch).toEqual([/.*\.api\.ts/]);
+  });
+
+  test("场景4: 无法静态解析时使用默认配置", () => {
+    writeConfig(`export default createConfig();`);
+    const [project] = resolveProjectConfigs(projPath)!;
+    expect(project.testDir).toBe(projPath);
+    expect(project.testMatch).toEqual([DEFAULT_TEST_MATCH]);
+  });
+});
+
+describe("isTestFileForProject", () => {
+  const project = {
+    name: "",
+    testDir: "/project/tests",
+    testMatch: [DEFAULT_TEST_MATCH],
+    testIgnore: ["quarantine/**"],
+  };
+
+  test("should match files by testDir, testMatch and testIgnore", () => {
+    expect(isTestFileForProject("/project/tests/login.spec.ts", project)).toBe(true);
+    expect(isTestFileForProject("/project/tests/login.e2e.ts", project)).toBe(false);
+    expect(isTestFileForProject("/project/unit/login.spec.ts", project)).toBe(false);
+    expect(isTestFileForProject("/project/tests/quarantine/a.spec.ts", project)).toBe(false);
+  });
+
+  test("should match regexp patterns against absolute path", () => {
+    expect(matchesFilePatterns("/project/tests/a.api.ts", [/\.api\.ts$/])).toBe(true);
+  });
+});
+
+describe("多配置文件", () => {
+  beforeEach(() => {
+    projPath = fs.mkdtempSync(path.join(os.tmpdir(), "pw-configs-"));
+    for (const dir of ["apps/web", "apps/admin", "node_modules/pkg"]) {
+      fs.mkdirSync(path.join(projPath, dir), { recursive: true });
+      writeConfig("export default {};", `${dir}/playwright.config.ts`);
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(projPath, { recursive: true, force: true });
+    delete process.env.TESTSOLAR_TTP_CONFIGS;
+  });
+
+  test("场景1: 查找项目下的所有配置文件，跳过 node_modules", () => {
+    expect(findPlaywrightConfigs(projPath).sort()).toEqual([
+      "apps/admin/playwright.config.ts",
+      "apps/web/playwright.config.ts",
+    ]);
+  });
+
+  test("场景2: 通过环境变量指定配置文件列表", () => {
+    expect(getPlaywrightConfigs(projPath)).toEqual([]);
+    process.env.TESTSOLAR_TTP_CONFIGS = "auto";
+    expect(getPlaywrightConfigs(projPath)).toHaveLength(2);
+    process.env.TESTSOLAR_TTP_CONFIGS = "apps/web/playwright.config.ts, ./e2e/pw.config.ts";
+    expect(getPlaywrightConfigs(projPath)).toEqual([
+      "apps/web/playwright.config.ts",
+      "e2e/pw.config.ts",
+    ]);
+  });
+
+  test("场景3: 按目录最长前缀找到用例所属的配置文件", () => {
+    const configs = ["playwright.config.ts", "apps/web/playwright.config.ts"];
+    expect(findConfigForPath("apps/web/tests/a.spec.ts", configs)).toBe(
+      "apps/web/playwright.config.ts",
+    );
+    expect(findConfigForPath("apps/webapp/a.spec.ts", configs)).toBe("playwright.config.ts");
+    expect(findConfigForPath("apps/admin/a.spec.ts", configs.slice(1))).toBeNull();
+  });
+});
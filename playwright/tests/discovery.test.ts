@@ -0,0 +1,116 @@
+import { describe, expect, test } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DEFAULT_TEST_MATCH } from "../src/playwrightx/config";
+import {
+  discoverTestsInFile,
+  discoverTests,
+} from "../src/playwrightx/discovery";
+
+const content = `
+import { test, expect } from '@playwright/test';
+
+test('top level', async ({ page }) => {
+  await test.step('inner step', async () => {});
+});
+
+test.describe('Admin', () => {
+  test.beforeEach(async () => {});
+
+  test.describe.skip('Settings @slow', () => {
+    test('save', async () => {});
+  });
+
+  test.only('login', { tag: ['@smoke', '@fast'] }, async () => {});
+  test.fixme(\`broken \${name}\`, async () => {});
+  test.skip(true, 'not a test');
+});
+
+test.describe(() => {
+  test('anonymous describe', async () => {});
+});
+`;
+
+describe("discoverTestsInFile", () => {
+  const testcases = discoverTestsInFile("tests/admin.spec.ts", content);
+
+  test("场景1: 解析 describe 层级和用例标题", () => {
+    expect(testcases.map((testcase) => [...testcase.suitePath, testcase.title])).toEqual([
+      ["top level"],
+      ["Admin", "Settings @slow", "save"],
+      ["Admin", "login"],
+      ["Admin", "broken ${name}"],
+      ["anonymous describe"],
+    ]);
+  });
+
+  test("场景2: 记录用例所在行列", () => {
+    expect(testcases[0].line).toBe(4);
+    expect(testcases[0].column).toBe(1);
+    expect(testcases[1].line).toBe(12);
+    expect(testcases[1].column).toBe(5);
+  });
+
+  test("场景3: 解析 skip/only/fixme 修饰符，describe 修饰符会继承", () => {
+    expect(testcases[0].modifiers).toEqual([]);
+    expect(testcases[1].modifiers).toEqual(["skip"]);
+    expect(testcases[2].modifiers).toEqual(["only"]);
+    expect(testcases[3].modifiers).toEqual(["fixme"]);
+  });
+
+  test("场景4: 解析标题和 details 中的标签", () => {
+    expect(testcases[1].tags).toEqual(["slow"]);
+    expect(testcases[2].tags).toEqual(["smoke", "fast"]);
+  });
+});
+
+describe("discoverTests", () => {
+  test("should return parsed testcases relative to project path", () => {
+    const projPath = fs.mkdtempSync(path.join(os.tmpdir(), "discovery-"));
+    const file = path.join(projPath, "tests", "admin.spec.ts");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    try {
+      const testcases = discoverTests(projPath, [file]);
+      expect(testcases).toHaveLength(5);
+      expect(decodeURIComponent(testcases[1].name)).toBe(
+        "tests/admin.spec.ts?Admin Settings @slow save",
+      );
+      expect(testcases[1].attributes.suitePath).toBe("Admin › Settings @slow");
+      expect(JSON.parse(testcases[1].attributes.modifiers)).toEqual(["skip"]);
+      expect(testcases[1].attributes.expectedStatus).toBe("skipped");
+    } finally {
+      fs.rmSync(projPath, { recursive: true, force: true });
+    }
+  });
+
+  test("多 project 时每个匹配文件的 project 生成一条带 project 前缀的用例", () => {
+    const projPath = fs.mkdtempSync(path.join(os.tmpdir(), "discovery-"));
+    const file = path.join(projPath, "tests", "admin.spec.ts");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    const project = (name: string, testIgnore: string[] = []) => ({
+      name,
+      testDir: projPath,
+      testMatch: [DEFAULT_TEST_MATCH],
+      testIgnore,
+    });
+    try {
+      const testcases = discoverTests(projPath, [file], [
+        project("chromium"),
+        project("firefox"),
+        project("mobile", ["**/admin.spec.ts"]),
+      ]);
+      expect(testcases.slice(0, 2).map((testcase) => decodeURIComponent(testcase.name))).toEqual([
+        "tests/admin.spec.ts?[chromium] top level",
+        "tests/admin.spec.ts?[firefox] top level",
+      ]);
+      expect(testcases).toHaveLength(10);
+      expect(discoverTests(projPath, [file], [project("chromium")]).map((testcase) => testcase.name))
+        .toEqual(discoverTests(projPath, [file]).map((testcase) => testcase.name));
+    } finally {
+      fs.rmSync(projPath, { recursive: true, force: true });
+    }
+  });
+});
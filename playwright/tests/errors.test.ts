@@ -0,0 +1,106 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  isAssertionError,
+  parseExpectedActual,
+  parsePlaywrightError,
+  splitErrorMessage,
+  stripAnsi,
+} from "../src/playwrightx/errors";
+
+// JSON 报告中 errors[] 的 message 拼接了错误信息、源码片段和调用栈
+const TO_BE_MESSAGE = [
+  "Error: \u001b[2mexpect(\u001b[22m\u001b[31mreceived\u001b[39m\u001b[2m).\u001b[22mtoBe\u001b[2m(\u001b[22m\u001b[32mexpected\u001b[39m\u001b[2m) // Object.is equality\u001b[22m",
+  "",
+  "Expected: \u001b[32m2\u001b[39m",
+  "Received: \u001b[31m1\u001b[39m",
+  "",
+  "  1 | import { test, expect } from '@playwright/test';",
+  "> 2 | test('eq', async () => { expect(1).toBe(2); });",
+  "    |                                    ^",
+  "  3 |",
+  "    at /project/tests/a.spec.ts:2:36",
+].join("\n");
+
+const TO_EQUAL_MESSAGE = [
+  "Error: expect(received).toEqual(expected) // deep equality",
+  "",
+  "- Expected  - 1",
+  "+ Received  + 1",
+  "",
+  "  Object {",
+  "-   \"a\": 2,",
+  "+   \"a\": 1,",
+  "  }",
+].join("\n");
+
+describe("errors", () => {
+  test("场景1: 拆分错误信息、源码片段和调用栈", () => {
+    const parts = splitErrorMessage(stripAnsi(TO_BE_MESSAGE));
+    expect(parts.message).toBe(
+      "Error: expect(received).toBe(expected) // Object.is equality\n\nExpected: 2\nReceived: 1",
+    );
+    expect(parts.snippet.split("\n")).toHaveLength(4);
+    expect(parts.snippet).toContain("> 2 | test('eq'");
+    expect(parts.stack).toBe("    at /project/tests/a.spec.ts:2:36");
+  });
+
+  test("场景2: 识别 expect 断言失败", () => {
+    expect(isAssertionError("Error: expect(received).toBe(expected)")).toBe(true);
+    expect(isAssertionError("Error: Timed out 5000ms waiting for expect(locator).toBeVisible()")).toBe(true);
+    expect(isAssertionError("TypeError: Cannot read properties of undefined")).toBe(false);
+  });
+
+  test("场景3: 提取期望值和实际值", () => {
+    expect(parseExpectedActual("Expected substring: \"world\"\nReceived string:    \"hello\"")).toEqual({
+      expected: "\"world\"",
+      actual: "\"hello\"",
+    });
+    expect(parseExpectedActual(TO_EQUAL_MESSAGE)).toEqual({
+      expected: "Object {\n  \"a\": 2,\n}",
+      actual: "Object {\n  \"a\": 1,\n}",
+    });
+    expect(parseExpectedActual("Error: expect(received).toBeTruthy()")).toEqual({
+      expected: "",
+      actual: "",
+    });
+  });
+
+  test("场景4: 断言失败转换为断言错误，其他异常转换为运行时错误", () => {
+    const assertion = parsePlaywrightError({ message: TO_BE_MESSAGE });
+    expect(assertion.runtimeError).toBeUndefined();
+    expect(assertion.assertError).toEqual(
+      expect.objectContaining({ Expect: "2", Actual: "1" }),
+    );
+
+    const runtime = parsePlaywrightError({
+      message: "SyntaxError: Unexpected end of JSON input",
+      stack: "SyntaxError: Unexpected end of JSON input\n    at /project/tests/a.spec.ts:4:34",
+      location: { file: "/project/tests/a.spec.ts", line: 4, column: 34 },
+      snippet: "> 4 | JSON.parse('{');",
+    });
+    expect(runtime.assertError).toBeUndefined();
+    expect(runtime.runtimeError).toEqual(
+      expect.objectContaining({
+        Summary: "SyntaxError: Unexpected end of JSON input",
+        Detail:
+          "SyntaxError: Unexpected end of JSON input\n    at /project/tests/a.spec.ts:4:34\n\n" +
+          "位置: /project/tests/a.spec.ts:4:34\n\n> 4 | JSON.parse('{');",
+      }),
+    );
+
+    // JSON 报告中的错误从 message 中拆分出调用栈和源码片段
+    const formatted = parsePlaywrightError({
+      message: "TypeError: x is undefined\n\n> 3 |   x.y;\n    |     ^\n    at /project/tests/a.spec.ts:3:5",
+    });
+    expect(formatted.runtimeError).toEqual(
+      expect.objectContaining({
+        Detail: "TypeError: x is undefined\n    at /project/tests/a.spec.ts:3:5\n\n> 3 |   x.y;\n    |     ^",
+      }),
+    );
+
+    // 抛出的不是 Error 时使用其字符串值
+    expect(parsePlaywrightError({ value: "'plain'" }).runtimeError).toEqual(
+      expect.objectContaining({ Summary: "'plain'", Detail: "'plain'" }),
+    );
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, test } from "@jest/globals";
+import { batchListFiles } from "../src/playwrightx/parser";
+
+describe("batchListFiles", () => {
+  test("场景1: 文件路径总长度超过上限时分批加载", () => {
+    const files = Array.from({ length: 300 }, (_, i) => `tests/${"nested/".repeat(5)}case-${i}.spec.ts`);
+    const batches = batchListFiles(files);
+    expect(batches.length).toBeGreaterThan(1);
+    expect(batches.flat()).toEqual(files);
+    for (const batch of batches) {
+      expect(batch.join(" ").length).toBeLessThanOrEqual(6000);
+    }
+  });
+
+  test("场景2: 文件较少时一次加载，没有文件时不加载", () => {
+    expect(batchListFiles(["tests/a.spec.ts", "tests/b.spec.ts"])).toEqual([
+      ["tests/a.spec.ts", "tests/b.spec.ts"],
+    ]);
+    expect(batchListFiles([])).toEqual([]);
+  });
+});
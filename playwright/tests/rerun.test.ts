@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, test } from "@jest/globals";
+import { TestCase } from "testsolar-oss-sdk/src/testsolar_sdk/model/test";
+import {
+  ResultType,
+  TestCaseStep,
+  TestResult,
+} from "testsolar-oss-sdk/src/testsolar_sdk/model/testresult";
+import {
+  buildLastFailedCommand,
+  buildSelectRerunCommand,
+  getFailedIdentifiers,
+  getRerunMode,
+  getRerunRounds,
+  mergeRerunResult,
+  supportsLastFailed,
+} from "../src/playwrightx/rerun";
+
+function createResult(name: string, resultType: ResultType, steps: string[]): TestResult {
+  return new TestResult(
+    new TestCase(name, { owner: "alice" }),
+    "2024-01-01T00:00:00.000Z",
+    "2024-01-01T00:00:01.000Z",
+    resultType,
+    resultType === ResultType.FAILED ? "failed" : "",
+    steps.map(
+      (title) =>
+        new TestCaseStep("2024-01-01T00:00:00.000Z", "2024-01-01T00:00:01.000Z", title, resultType, []),
+    ),
+  );
+}
+
+describe("rerun", () => {
+  afterEach(() => {
+    delete process.env.TESTSOLAR_TTP_RERUNFAILED;
+    delete process.env.TESTSOLAR_TTP_RERUNMODE;
+    delete process.env.TESTSOLAR_TTP_TESTCASE_PREFIX;
+  });
+
+  test("场景1: 读取重跑轮数和重跑方式，配置无效时不重跑", () => {
+    expect(getRerunRounds()).toBe(0);
+    expect(getRerunMode(process.cwd())).toBe("select");
+    process.env.TESTSOLAR_TTP_RERUNFAILED = "2";
+    process.env.TESTSOLAR_TTP_RERUNMODE = "lastfailed";
+    expect(getRerunRounds()).toBe(2);
+    expect(getRerunMode(process.cwd())).toBe("lastfailed");
+    // 找不到 @playwright/test 时无法确认是否支持 --last-failed，改为按名称重跑
+    expect(getRerunMode("/")).toBe("select");
+    process.env.TESTSOLAR_TTP_RERUNFAILED = "-1";
+    expect(getRerunRounds()).toBe(0);
+  });
+
+  test("场景1.1: Playwright 1.44 以下版本不支持 --last-failed", () => {
+    expect(supportsLastFailed("1.39.0")).toBe(false);
+    expect(supportsLastFailed("1.43.1")).toBe(false);
+    expect(supportsLastFailed("1.44.0")).toBe(true);
+    expect(supportsLastFailed("1.60.0-beta-1")).toBe(true);
+    expect(supportsLastFailed("2.0.0")).toBe(true);
+    expect(supportsLastFailed(null)).toBe(false);
+  });
+
+  test("场景2: 只收集失败的用例，去掉用例前缀并解码用例名称", () => {
+    process.env.TESTSOLAR_TTP_TESTCASE_PREFIX = "e2e";
+    const results = [
+      createResult("e2e/a.spec.ts?Admin%20save", ResultType.FAILED, []),
+      createResult("e2e/a.spec.ts?Admin%20load", ResultType.SUCCEED, []),
+      createResult("e2e/b.spec.ts:12", ResultType.FAILED, []),
+      createResult("e2e/c.spec.ts?skip", ResultType.IGNORED, []),
+    ];
+    expect(getFailedIdentifiers(results)).toEqual(["a.spec.ts?Admin save", "b.spec.ts:12"]);
+  });
+
+  test("场景3: 按名称重跑时去掉 --shard，按 --last-failed 重跑时复用上一次运行的输出目录", () => {
+    const previous = {
+      argv: ["npx", "playwright", "test", "a.spec.ts", "--shard=1/2", "--output=test-results-aaa"],
+      env: {},
+    };
+    const command = {
+      argv: ["npx", "playwright", "test", "a.spec.ts", "--shard=1/2", "--output=test-results-bbb"],
+      env: { PLAYWRIGHT_JSON_OUTPUT_NAME: "rerun1_a.json" },
+    };
+    expect(buildSelectRerunCommand(command).argv).toEqual([
+      "npx", "playwright", "test", "a.spec.ts", "--output=test-results-bbb",
+    ]);
+    const lastFailed = buildLastFailedCommand(previous, command);
+    expect(lastFailed.argv).toEqual([
+      "npx", "playwright", "test", "a.spec.ts", "--shard=1/2", "--output=test-results-aaa", "--last-failed",
+    ]);
+    expect(lastFailed.env).toEqual(command.env);
+    // 多轮重跑时不重复追加 --last-failed
+    expect(buildLastFailedCommand(lastFailed, lastFailed).argv.filter((arg) => arg === "--last-failed"))
+      .toHaveLength(1);
+  });
+
+  test("场景4: 合并重跑结果，状态取最后一轮，之前各轮的步骤保留为历史", () => {
+    const first = createResult("a.spec.ts?save", ResultType.FAILED, ["Run", "Retry #1"]);
+    const second = createResult("a.spec.ts?save", ResultType.FAILED, ["Step title"]);
+    const third = createResult("a.spec.ts?save", ResultType.SUCCEED, ["Step title"]);
+
+    const merged = mergeRerunResult(first, second, 1);
+    expect(merged.ResultType).toBe(ResultType.FAILED);
+    expect(merged.Test.Attributes).toEqual({ owner: "alice", reruns: "1" });
+
+    const final = mergeRerunResult(merged, third, 2);
+    expect(final.ResultType).toBe(ResultType.SUCCEED);
+    expect(final.Message).toBe("");
+    expect(final.Test.Attributes.reruns).toBe("2");
+    expect(final.Steps.map((step: TestCaseStep) => step.Title)).toEqual([
+      "Pass 1: Run",
+      "Pass 1: Retry #1",
+      "Pass 2",
+      "Pass 3",
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, test } from "@jest/globals";
+import * as path from "path";
+import {
+  getBlobFileName,
+  getShardArgs,
+  getShardConfig,
+  partitionSelectors,
+} from "../src/playwrightx/shard";
+
+describe("shard", () => {
+  afterEach(() => {
+    delete process.env.TESTSOLAR_TTP_SHARDINDEX;
+    delete process.env.TESTSOLAR_TTP_SHARDTOTAL;
+    delete process.env.TESTSOLAR_TTP_SHARDMODE;
+  });
+
+  test("场景1: 读取分片配置，未配置、只有一个分片或配置无效时不分片", () => {
+    expect(getShardConfig()).toBeNull();
+    process.env.TESTSOLAR_TTP_SHARDINDEX = "2";
+    process.env.TESTSOLAR_TTP_SHARDTOTAL = "3";
+    expect(getShardConfig()).toEqual({ index: 2, total: 3, mode: "playwright" });
+    process.env.TESTSOLAR_TTP_SHARDMODE = "cases";
+    expect(getShardConfig()?.mode).toBe("cases");
+    process.env.TESTSOLAR_TTP_SHARDINDEX = "4";
+    expect(getShardConfig()).toBeNull();
+    process.env.TESTSOLAR_TTP_SHARDINDEX = "1";
+    process.env.TESTSOLAR_TTP_SHARDTOTAL = "1";
+    expect(getShardConfig()).toBeNull();
+  });
+
+  test("场景2: 按用例均衡划分，各分片互不重叠且保留排除选择器", () => {
+    const selectors = [
+      "b.spec.ts?b1",
+      "a.spec.ts?a2",
+      "a.spec.ts?a1",
+      "!a.spec.ts?a3",
+      "c.spec.ts?c1",
+      "b.spec.ts?b2",
+    ];
+    const shards = [1, 2, 3].map((index) =>
+      partitionSelectors(selectors, { index, total: 3, mode: "cases" }),
+    );
+    expect(shards).toEqual([
+      ["a.spec.ts?a1", "a.spec.ts?a2", "!a.spec.ts?a3"],
+      ["b.spec.ts?b1", "b.spec.ts?b2", "!a.spec.ts?a3"],
+      ["c.spec.ts?c1", "!a.spec.ts?a3"],
+    ]);
+    expect(partitionSelectors(["a.spec.ts"], { index: 2, total: 2, mode: "cases" })).toEqual([]);
+  });
+
+  test("场景3: 生成 --shard 参数和 blob 报告文件名", () => {
+    const shard = { index: 1, total: 2, mode: "playwright" as const };
+    expect(getShardArgs(shard)).toEqual(["--shard=1/2"]);
+    expect(getShardArgs({ ...shard, mode: "cases" })).toEqual([]);
+    expect(getShardArgs(null)).toEqual([]);
+    expect(getBlobFileName("tests_a.spec.ts_pid_1.json", shard)).toBe(
+      path.join("blob-report", "report-1-of-2-tests_a.spec.ts_pid_1.zip"),
+    );
+  });
+});
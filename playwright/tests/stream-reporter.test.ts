@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { FullConfig, TestCase, TestResult } from "@playwright/test/reporter";
+import StreamReporter from "../src/playwrightx/stream-reporter";
+
+let dir: string;
+
+function createTest(retries: number, results: TestResult[] = [], outcome = "expected"): TestCase {
+  const project = { name: "chromium" };
+  const file = { type: "file", title: "a.spec.ts", parent: undefined, project: () => project };
+  const describe = { type: "describe", title: "Admin", parent: file, project: () => project };
+  return {
+    title: "save (x)",
+    parent: describe,
+    location: { file: path.join(dir, "tests", "a.spec.ts"), line: 4, column: 9 },
+    annotations: [{ type: "owner", description: "alice" }],
+    expectedStatus: "passed",
+    timeout: 30000,
+    retries,
+    results,
+    outcome: () => outcome,
+  } as unknown as TestCase;
+}
+
+function createResult(status: string, retry: number): TestResult {
+  return {
+    startTime: new Date("2024-01-01T00:00:00Z"),
+    duration: 10,
+    status,
+    retry,
+    errors: [],
+    stdout: ["hi\n"],
+    stderr: [],
+    attachments: [],
+    steps: [],
+  } as unknown as TestResult;
+}
+
+describe("StreamReporter", () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "pw-stream-reporter-"));
+    process.env.TESTSOLAR_TTP_STREAMFILE = path.join(dir, "1.stream.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    delete process.env.TESTSOLAR_TTP_STREAMFILE;
+  });
+
+  test("场景1: 每条用例结束时写出与 JSON reporter 结构一致的报告片段", () => {
+    const reporter = new StreamReporter();
+    reporter.onBegin({
+      rootDir: path.join(dir, "tests"),
+      projects: [{ name: "chromium" }],
+    } as unknown as FullConfig);
+    const result = {
+      ...createResult("passed", 0),
+      attachments: [
+        { name: "screenshot", contentType: "image/png", path: "/tmp/a.png" },
+        { name: "note", contentType: "text/plain", body: Buffer.from("hello") },
+      ],
+    } as unknown as TestResult;
+    reporter.onTestEnd(createTest(0, [result]), result);
+
+    const lines = fs.readFileSync(process.env.TESTSOLAR_TTP_STREAMFILE!, "utf-8").trim().split("\n");
+    expect(lines).toHaveLength(1);
+    const report = JSON.parse(lines[0]);
+    expect(report.config.rootDir).toBe(path.join(dir, "tests"));
+    const [fileSuite] = report.suites;
+    expect(fileSuite.title).toBe("a.spec.ts");
+    expect(fileSuite.suites[0].title).toBe("Admin");
+    const spec = fileSuite.suites[0].specs[0];
+    expect(spec).toMatchObject({ title: "save (x)", file: "a.spec.ts", line: 4, column: 9 });
+    expect(spec.tests[0].projectName).toBe("chromium");
+    expect(spec.tests[0].results[0]).toMatchObject({
+      startTime: "2024-01-01T00:00:00.000Z",
+      status: "passed",
+      stdout: [{ text: "hi\n" }],
+      attachments: [
+        { name: "screenshot", contentType: "image/png", path: "/tmp/a.png" },
+        { name: "note", contentType: "text/plain", body: "aGVsbG8=" },
+      ],
+    });
+  });
+
+  test("场景2: 还会重试的执行结果不写出，最后一次执行时写出每次执行的结果和用例结论", () => {
+    const reporter = new StreamReporter();
+    reporter.onBegin({ rootDir: dir, projects: [] } as unknown as FullConfig);
+    const first = createResult("failed", 0);
+    reporter.onTestEnd(createTest(1, [first]), first);
+    expect(fs.existsSync(process.env.TESTSOLAR_TTP_STREAMFILE!)).toBe(false);
+    const second = createResult("passed", 1);
+    reporter.onTestEnd(createTest(1, [first, second], "flaky"), second);
+
+    const report = JSON.parse(fs.readFileSync(process.env.TESTSOLAR_TTP_STREAMFILE!, "utf-8"));
+    const [result] = report.suites[0].suites[0].specs[0].tests;
+    expect(result.status).toBe("flaky");
+    expect(result.results.map((item: { retry: number; status: string }) => [item.retry, item.status])).toEqual([
+      [0, "failed"],
+      [1, "passed"],
+    ]);
+  });
+
+  test("场景3: 只写出 test.step 类别的步骤，并记录步骤的开始时间", () => {
+    const reporter = new StreamReporter();
+    reporter.onBegin({ rootDir: dir, projects: [] } as unknown as FullConfig);
+    const step = (title: string, category: string, steps: unknown[] = []) => ({
+      title,
+      category,
+      duration: 5,
+      startTime: new Date("2024-01-01T00:00:01Z"),
+      steps,
+    });
+    const result = {
+      ...createResult("passed", 0),
+      steps: [
+        step("login", "test.step", [step("fill", "test.step"), step("page.click", "pw:api")]),
+        step("expect.toBe", "expect"),
+      ],
+    } as unknown as TestResult;
+    reporter.onTestEnd(createTest(0, [result]), result);
+
+    const report = JSON.parse(fs.readFileSync(process.env.TESTSOLAR_TTP_STREAMFILE!, "utf-8"));
+    const [jsonResult] = report.suites[0].suites[0].specs[0].tests[0].results;
+    expect(jsonResult.steps).toEqual([
+      {
+        title: "login",
+        duration: 5,
+        startTime: "2024-01-01T00:00:01.000Z",
+        steps: [{ title: "fill", duration: 5, startTime: "2024-01-01T00:00:01.000Z" }],
+      },
+    ]);
+  });
+});
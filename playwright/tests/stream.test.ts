@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, test } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getStreamFileName, readStreamLines } from "../src/playwrightx/stream";
+
+let dir: string;
+
+describe("readStreamLines", () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "pw-stream-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("场景1: 结果文件与 JSON 报告放在一起", () => {
+    expect(getStreamFileName("tests_a.spec.ts_pid_1.json")).toBe(
+      "tests_a.spec.ts_pid_1.stream.jsonl",
+    );
+  });
+
+  test("场景2: 只读取新增的完整行，不完整的行留到下次读取", () => {
+    const file = path.join(dir, "1.stream.jsonl");
+    expect(readStreamLines(file, 0)).toEqual({ lines: [], offset: 0 });
+
+    fs.writeFileSync(file, '{"a":1}\n{"b":');
+    const first = readStreamLines(file, 0);
+    expect(first.lines).toEqual(['{"a":1}']);
+
+    fs.appendFileSync(file, '"用例"}\n');
+    const second = readStreamLines(file, first.offset);
+    expect(second.lines).toEqual(['{"b":"用例"}']);
+    expect(readStreamLines(file, second.offset).lines).toEqual([]);
+  });
+});
@@ -1,6 +1,7 @@
-import { describe, expect, jest, test } from "@jest/globals";
+import { afterEach, beforeEach, describe, expect, jest, test } from "@jest/globals";
 import * as process from "process";
 import * as fs from "fs";
+import * as os from "os";
 import {
   executeCommand,
   isFileOrDirectory,
@@ -21,12 +22,37 @@ import {
   createRunningTestResults,
   mapPlaywrightStatus,
   getLogLevelByResultType,
+  splitProjectFromName,
+  parseTestcaseDetails,
+  parseTagSelector,
+  selectTestcases,
+  mapAnnotationsToAttributes,
+  parseLineSelector,
+  scanPlaywrightTestFilesByConfig,
+  createDuplicateLoadErrors,
+  findFailedSpecFiles,
+  describeHangPhase,
+  formatCommand,
+  splitArgs,
+  quoteWindowsArg,
+  buildGrepPattern,
+  expandRegexSelectors,
+  chunkTestCases,
+  getChunkJsonName,
+  mergeSpecResults,
+  planRuns,
+  generateRunCommands,
+  getCombineKey,
+  runWithConcurrency,
+  getTestOutcome,
+  parseResultSteps,
 } from "../src/playwrightx/utils";
 
+import { STREAM_REPORTER_PATH } from "../src/playwrightx/stream";
 import * as path from "path";
 import log from 'testsolar-oss-sdk/src/testsolar_sdk/logger';
 import Reporter from "testsolar-oss-sdk/src/testsolar_sdk/reporter";
-import { Attachment, AttachmentType, ResultType, LogLevel } from "testsolar-oss-sdk/src/testsolar_sdk/model/testresult";
+import { Attachment, AttachmentType, ResultType, LogLevel, TestCaseStep } from "testsolar-oss-sdk/src/testsolar_sdk/model/testresult";
 
 
 describe("parsePlaywrightReport", () => {  // 更改为与测试函数名称一致
@@ -57,6 +83,75 @@ describe("executeCommand", () => {
     expect(result.stderr).toContain("not found");
     expect(result.error).toBeDefined();
   });
+
+  test("should run argv commands without shell and write stdout to file", async () => {
+    const stdoutFile = path.join(os.tmpdir(), `argv-${Date.now()}.txt`);
+    const result = await executeCommand({
+      argv: ["node", "-e", "process.stdout.write(process.env.GREETING + process.argv[1])", "$HOME `id`"],
+      env: { GREETING: "hi " },
+      stdoutFile,
+    });
+    expect(result.error).toBeUndefined();
+    expect(fs.readFileSync(stdoutFile, "utf-8")).toBe("hi $HOME `id`");
+    fs.rmSync(stdoutFile, { force: true });
+  });
+
+  test("should kill process tree and keep output when timed out", async () => {
+    const start = Date.now();
+    const result = await executeCommand('echo "[WebServer] starting"; sleep 30 & sleep 30', 500);
+    expect(Date.now() - start).toBeLessThan(10000);
+    expect(result.timedOut).toBe(true);
+    expect(result.stdout).toContain("[WebServer] starting");
+    expect(describeHangPhase("run", result.stdout, result.stderr)).toBe("webServer 启动");
+  });
+
+  test("should forward termination signals to the detached process group only when timed", async () => {
+    const listeners = globalThis.process.listenerCount("SIGTERM");
+    const untimed = executeCommand("sleep 0.2");
+    expect(globalThis.process.listenerCount("SIGTERM")).toBe(listeners);
+    await untimed;
+
+    // 保留一个处理函数，避免转发后按默认行为结束测试进程
+    const keepAlive = () => undefined;
+    globalThis.process.on("SIGTERM", keepAlive);
+    try {
+      const start = Date.now();
+      const timed = executeCommand("sleep 30 & sleep 30", 60000);
+      expect(globalThis.process.listenerCount("SIGTERM")).toBe(listeners + 2);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      globalThis.process.emit("SIGTERM", "SIGTERM");
+      const result = await timed;
+      expect(Date.now() - start).toBeLessThan(10000);
+      expect(result.error?.message).toContain("SIGTERM");
+      expect(globalThis.process.listenerCount("SIGTERM")).toBe(listeners + 1);
+    } finally {
+      globalThis.process.removeListener("SIGTERM", keepAlive);
+    }
+  });
+});
+
+describe("splitArgs", () => {
+  test("should split arguments with quotes and escapes", () => {
+    expect(splitArgs(`--grep "a b" --project='x y' a\\ b "q\\"x" ''`)).toEqual([
+      "--grep",
+      "a b",
+      "--project=x y",
+      "a b",
+      'q"x',
+      "",
+    ]);
+    expect(splitArgs("   ")).toEqual([]);
+  });
+});
+
+describe("quoteWindowsArg", () => {
+  test("should escape cmd meta characters including % and quotes", () => {
+    expect(quoteWindowsArg("--workers=2")).toBe("--workers=2");
+    expect(quoteWindowsArg("a b")).toBe('^^^"a^^^ b^^^"');
+    // "%VAR%" 不会被 cmd 展开为环境变量
+    expect(quoteWindowsArg("--grep=%PATH%")).toBe('^^^"--grep=^^^%PATH^^^%^^^"');
+    expect(quoteWindowsArg('q"x')).toBe('^^^"q\\^^^"x^^^"');
+  });
 });
 
 describe("parseErrorCases", () => {
@@ -200,19 +295,563 @@ describe("parseTestcase", () => {
     const result = parseTestcase(projPath, data);
     expect(result).toEqual([
       "tests/suite1.js?Suite%201%20Spec%201",
-      "tests/suite2.js?Suite%202%20Spec%202",
+      "tests/suite2.js?Suite%201%20Suite%202%20Spec%202",
       "tests/suite3.js?Spec%201",
     ]);
   });
 });
 
+describe("parseTestcaseDetails - 完整 describe 层级", () => {
+  const projPath = "/project";
+  const data = {
+    config: { rootDir: "/project/tests" },
+    suites: [
+      {
+        title: "a.spec.ts",
+        file: "a.spec.ts",
+        specs: [{ title: "top", file: "a.spec.ts" }],
+        suites: [
+          {
+            title: "Admin",
+            file: "a.spec.ts",
+            specs: [],
+            suites: [
+              {
+                title: "Settings",
+                file: "a.spec.ts",
+                specs: [{ title: "save", file: "a.spec.ts" }],
+              },
+            ],
+          },
+          {
+            title: "User",
+            file: "a.spec.ts",
+            specs: [],
+            suites: [
+              {
+                title: "Settings",
+                file: "a.spec.ts",
+                specs: [{ title: "save", file: "a.spec.ts" }],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  test("场景1: 保留外层 describe 标题，并与文件级用例一起解析", () => {
+    const result = parseTestcaseDetails(projPath, data);
+    expect(result.map((testcase) => decodeURIComponent(testcase.name))).toEqual([
+      "tests/a.spec.ts?top",
+      "tests/a.spec.ts?Admin Settings save",
+      "tests/a.spec.ts?User Settings save",
+    ]);
+  });
+
+  test("场景2: suitePath 属性记录完整 describe 层级", () => {
+    const result = parseTestcaseDetails(projPath, data);
+    expect(result.map((testcase) => testcase.attributes.suitePath)).toEqual([
+      "",
+      "Admin › Settings",
+      "User › Settings",
+    ]);
+  });
+
+  test("场景3: 使用 suitePath 分隔符选择用例", async () => {
+    const names = parseTestcase(projPath, data);
+    const result = await filterTestcases(["tests/a.spec.ts?Admin › Settings"], names);
+    expect(result).toEqual(["tests/a.spec.ts?Admin%20Settings%20save"]);
+  });
+
+  test("场景4: generateCommands 将 suitePath 分隔符转换为 grep 可匹配的名称", () => {
+    const { command } = generateCommands("tests/a.spec.ts", ["Admin › Settings save"], "1.json");
+    expect(command.argv).toContain(
+      "--grep=/(?:^|[ /])a\\.spec\\.ts (?:Admin(?: @\\S+)* Settings(?: @\\S+)* save)(?: @\\S+)*$/",
+    );
+  });
+});
+
+describe("parseTestcase - 多 project", () => {
+  const projPath = "/project";
+  const data = {
+    config: {
+      rootDir: "/project/tests",
+      projects: [{ name: "chromium" }, { name: "firefox" }],
+    },
+    suites: [
+      {
+        title: "login.spec.ts",
+        file: "login.spec.ts",
+        specs: [
+          {
+            title: "login",
+            file: "login.spec.ts",
+            tests: [
+              { annotations: [], projectId: "chromium", projectName: "chromium", results: [] },
+              { annotations: [], projectId: "firefox", projectName: "firefox", results: [] },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  test("场景1: 每个 project 生成一条带 project 前缀的用例", () => {
+    expect(parseTestcase(projPath, data)).toEqual([
+      "tests/login.spec.ts?%5Bchromium%5D%20login",
+      "tests/login.spec.ts?%5Bfirefox%5D%20login",
+    ]);
+  });
+
+  test("场景2: 单 project 时用例名称不带前缀", () => {
+    const single = { ...data, config: { rootDir: "/project/tests", projects: [{ name: "chromium" }] } };
+    expect(parseTestcase(projPath, single)).toEqual(["tests/login.spec.ts?login"]);
+  });
+
+  test("场景3: 运行结果按 projectId 映射回各自用例", () => {
+    const runData = JSON.parse(JSON.stringify(data));
+    runData.suites[0].specs[0].tests[0].results = [
+      { startTime: "2023-01-01T00:00:00Z", duration: 1000, status: "passed" },
+    ];
+    runData.suites[0].specs[0].tests[1].results = [
+      { startTime: "2023-01-01T00:00:00Z", duration: 1000, status: "failed" },
+    ];
+    const result = parseJsonContent(projPath, runData);
+    expect(result["tests/login.spec.ts?[chromium] login"][0].result).toBe("passed");
+    expect(result["tests/login.spec.ts?[firefox] login"][0].result).toBe("failed");
+  });
+
+  test("场景4: 不带 project 前缀的用例匹配所有 project 的结果，分别上报", () => {
+    const runData = JSON.parse(JSON.stringify(data));
+    for (const test of runData.suites[0].specs[0].tests) {
+      test.results = [{ startTime: "2023-01-01T00:00:00Z", duration: 1000, status: "passed" }];
+    }
+    const results = createTestResults(parseJsonContent(projPath, runData), ["tests/login.spec.ts?login"]);
+    expect(results.map((result) => decodeURIComponent(result.Test.Name))).toEqual([
+      expect.stringMatching(/tests\/login\.spec\.ts\?\[chromium\] login$/),
+      expect.stringMatching(/tests\/login\.spec\.ts\?\[firefox\] login$/),
+    ]);
+    expect(results.map((result) => result.ResultType)).toEqual([ResultType.SUCCEED, ResultType.SUCCEED]);
+  });
+});
+
+describe("加载阶段的标签与注解", () => {
+  const projPath = "/project";
+  const data = {
+    config: { rootDir: "/project/tests" },
+    suites: [
+      {
+        title: "a.spec.ts",
+        file: "a.spec.ts",
+        specs: [
+          {
+            title: "login @smoke",
+            file: "a.spec.ts",
+            tags: ["smoke"],
+            tests: [
+              {
+                annotations: [{ type: "owner", description: "alice" }],
+                projectId: "chromium",
+                results: [],
+              },
+            ],
+          },
+          {
+            title: "checkout",
+            file: "a.spec.ts",
+            tags: ["@regression"],
+            tests: [{ annotations: [], projectId: "chromium", results: [] }],
+          },
+        ],
+      },
+    ],
+  };
+
+  test("场景1: 标签和注解作为用例属性", () => {
+    const [login, checkout] = parseTestcaseDetails(projPath, data);
+    expect(login.tags).toEqual(["smoke"]);
+    expect(JSON.parse(login.attributes.tags)).toEqual(["smoke"]);
+    expect(JSON.parse(login.attributes.annotations)).toEqual([
+      { type: "owner", description: "alice" },
+    ]);
+    expect(login.attributes.owner).toBe("alice");
+    expect(checkout.tags).toEqual(["regression"]);
+  });
+
+  test("场景2: 解析标签选择器", () => {
+    expect(parseTagSelector("@smoke")).toBe("smoke");
+    expect(parseTagSelector("tag:regression")).toBe("regression");
+    expect(parseTagSelector("tag:@regression")).toBe("regression");
+    expect(parseTagSelector("tests/a.spec.ts")).toBeNull();
+  });
+
+  test("场景3: 按标签选择器和路径选择器选择用例", async () => {
+    const details = parseTestcaseDetails(projPath, data);
+    const names = details.map((testcase) => testcase.name);
+    expect(await selectTestcases(["@smoke"], names, details)).toEqual([names[0]]);
+    expect(await selectTestcases(["tag:regression"], names, details)).toEqual([names[1]]);
+    expect(
+      await selectTestcases(["tag:regression", "tests/a.spec.ts?login"], names, details),
+    ).toEqual(names);
+  });
+});
+
+describe("加载阶段的运行配置属性", () => {
+  test("期望状态、超时时间和 project 重试次数作为用例属性", () => {
+    const data = {
+      config: {
+        rootDir: "/project/tests",
+        projects: [{ id: "chromium", name: "chromium", retries: 2 }],
+      },
+      suites: [
+        {
+          title: "a.spec.ts",
+          file: "a.spec.ts",
+          specs: [
+            {
+              title: "known bug",
+              file: "a.spec.ts",
+              line: 3,
+              column: 5,
+              tests: [
+                {
+                  annotations: [{ type: "fail" }],
+                  projectId: "chromium",
+                  expectedStatus: "failed",
+                  timeout: 60000,
+                  results: [],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+    const [testcase] = parseTestcaseDetails("/project", data);
+    expect(testcase.attributes).toMatchObject({
+      line: "3",
+      column: "5",
+      expectedStatus: "failed",
+      timeout: "60000",
+      retries: "2",
+    });
+  });
+});
+
+describe("mapAnnotationsToAttributes", () => {
+  afterEach(() => {
+    delete process.env.TESTSOLAR_TTP_ANNOTATIONMAPPING;
+  });
+
+  test("场景1: owner、issue 和自定义类型转换为用例属性", () => {
+    const attributes = mapAnnotationsToAttributes([
+      { type: "owner", description: "alice" },
+      { type: "issue", description: "https://example.com/1" },
+      { type: "issue", description: "https://example.com/2" },
+      { type: "team", description: "checkout" },
+    ]);
+    expect(attributes).toEqual({
+      owner: "alice",
+      issue: "https://example.com/1,https://example.com/2",
+      team: "checkout",
+    });
+  });
+
+  test("场景2: 通过 TESTSOLAR_TTP_ANNOTATIONMAPPING 配置属性名称", () => {
+    process.env.TESTSOLAR_TTP_ANNOTATIONMAPPING = "maintainer:owner, bug:issue, invalid";
+    const attributes = mapAnnotationsToAttributes([
+      { type: "maintainer", description: "bob" },
+      { type: "bug", description: "BUG-1" },
+    ]);
+    expect(attributes).toEqual({ owner: "bob", issue: "BUG-1" });
+  });
+
+  test("场景3: 运行结果中的注解同样转换为用例属性", () => {
+    const output = {
+      "path/to/case": [
+        {
+          projectID: "proj1",
+          result: "passed",
+          duration: 1,
+          startTime: 1610000000,
+          endTime: 1610000001,
+          message: "",
+          content: "",
+          owner: "alice",
+          description: null,
+          attributes: { owner: "alice", issue: "BUG-1" },
+          attachments: [],
+        },
+      ],
+    };
+    const [result] = createTestResults(output, ["path/to/case"]);
+    expect(result.Test.Attributes.owner).toBe("alice");
+    expect(result.Test.Attributes.issue).toBe("BUG-1");
+  });
+});
+
+describe("file:line 选择器", () => {
+  const projPath = "/project";
+  const data = {
+    config: { rootDir: "/project/tests" },
+    suites: [
+      {
+        title: "login.spec.ts",
+        file: "login.spec.ts",
+        specs: [
+          { title: "login", file: "login.spec.ts", line: 42, column: 7 },
+          { title: "login twice", file: "login.spec.ts", line: 50, column: 7 },
+        ],
+      },
+    ],
+  };
+
+  test("场景1: 解析 file:line 选择器", () => {
+    expect(parseLineSelector("tests/login.spec.ts:42")).toEqual({
+      path: "tests/login.spec.ts",
+      line: 42,
+    });
+    expect(parseLineSelector("tests/login.spec.ts?login")).toBeNull();
+    expect(parseLineSelector("tests/login.spec.ts?case:42")).toBeNull();
+  });
+
+  test("场景2: 加载时记录用例所在行列并按行选择用例", async () => {
+    const details = parseTestcaseDetails(projPath, data);
+    expect(details[0].attributes.line).toBe("42");
+    expect(details[0].attributes.column).toBe("7");
+    const names = details.map((testcase) => testcase.name);
+    expect(await selectTestcases(["tests/login.spec.ts:42"], names, details)).toEqual([
+      "tests/login.spec.ts?login",
+    ]);
+  });
+
+  test("场景3: 运行 file:line 时不使用 grep", () => {
+    const { command, testIdentifiers } = generateCommands("tests/login.spec.ts:42", [""], "1.json");
+    expect(formatCommand(command)).toContain("npx playwright test tests/login.spec.ts:42 ");
+    expect(formatCommand(command)).not.toContain("--grep");
+    expect(testIdentifiers).toEqual(["tests/login.spec.ts:42"]);
+  });
+
+  test("场景4: 运行结果按所在行映射回 file:line 标识符", () => {
+    delete process.env.TESTSOLAR_TTP_TESTCASE_PREFIX;
+    const output = {
+      "tests/login.spec.ts?login": [
+        {
+          projectID: "chromium",
+          result: "passed",
+          duration: 1,
+          startTime: 1610000000,
+          endTime: 1610000001,
+          message: "",
+          content: "",
+          owner: null,
+          description: null,
+          line: 42,
+          attachments: [],
+        },
+      ],
+    };
+    const results = createTestResults(output, ["tests/login.spec.ts:42"]);
+    expect(results).toHaveLength(1);
+    expect(results[0].Test.Name).toBe("tests/login.spec.ts:42");
+    expect(results[0].ResultType).toBe(ResultType.SUCCEED);
+  });
+});
+
+describe("名称重复的用例", () => {
+  const projPath = "/project";
+  const data = {
+    config: { rootDir: "/project/tests" },
+    suites: [
+      {
+        title: "data.spec.ts",
+        file: "data.spec.ts",
+        specs: [
+          { title: "A B c", file: "data.spec.ts", line: 3, column: 1 },
+          { title: "unique", file: "data.spec.ts", line: 20, column: 1 },
+        ],
+        suites: [
+          {
+            title: "A B",
+            file: "data.spec.ts",
+            specs: [{ title: "c", file: "data.spec.ts", line: 12, column: 3 }],
+          },
+        ],
+      },
+    ],
+  };
+
+  test("场景1: 重复名称按所在行追加后缀，保证名称唯一", () => {
+    const details = parseTestcaseDetails(projPath, data);
+    expect(details.map((testcase) => decodeURIComponent(testcase.name))).toEqual([
+      "tests/data.spec.ts?A B c [L3]",
+      "tests/data.spec.ts?unique",
+      "tests/data.spec.ts?A B c [L12]",
+    ]);
+    expect(parseTestcase(projPath, data)).toHaveLength(3);
+  });
+
+  test("场景2: 重复名称上报加载错误", () => {
+    const errors = createDuplicateLoadErrors(parseTestcaseDetails(projPath, data));
+    expect(errors).toHaveLength(1);
+    expect(errors[0].Name).toBe("tests/data.spec.ts?A B c");
+  });
+
+  test("场景3: 运行时按所在行定位，结果按所在行映射回带后缀的用例", () => {
+    delete process.env.TESTSOLAR_TTP_TESTCASE_PREFIX;
+    const { command } = generateCommands("tests/data.spec.ts", ["A B c [L12]"], "1.json");
+    expect(command.argv).toContain("tests/data.spec.ts:12");
+    expect(formatCommand(command)).not.toContain("--grep");
+
+    const specResult = (line: number, result: string) => ({
+      projectID: "",
+      result,
+      duration: 1,
+      startTime: 1610000000,
+      endTime: 1610000001,
+      message: "",
+      content: "",
+      owner: null,
+      description: null,
+      line,
+      attachments: [],
+    });
+    const output = {
+      "tests/data.spec.ts?A B c": [specResult(3, "failed"), specResult(12, "passed")],
+    };
+    const results = createTestResults(output, ["tests/data.spec.ts?A B c [L12]"]);
+    expect(results).toHaveLength(1);
+    expect(decodeURIComponent(results[0].Test.Name)).toBe("tests/data.spec.ts?A B c [L12]");
+    expect(results[0].ResultType).toBe(ResultType.SUCCEED);
+  });
+});
+
+describe("findFailedSpecFiles", () => {
+  const files = ["/project/tests/a.spec.ts", "/project/tests/b.spec.ts", "/project/tests/c.spec.ts"];
+
+  test("场景1: 按错误位置和错误堆栈定位导入失败的用例文件", () => {
+    const report = {
+      errors: [
+        {
+          message: "Error: boom\n    at a.spec.ts:3",
+          stack: "",
+          location: { file: "/project/tests/a.spec.ts", line: 3, column: 1 },
+        },
+        {
+          message: "TypeError: helper failed",
+          stack: "TypeError: helper failed\n    at /project/tests/helper.ts:1:1\n    at /project/tests/c.spec.ts:2:1",
+          location: { file: "/project/tests/helper.ts", line: 1, column: 1 },
+        },
+      ],
+    };
+    expect(findFailedSpecFiles(JSON.stringify(report), files)).toEqual({
+      "/project/tests/a.spec.ts": ["Error: boom"],
+      "/project/tests/c.spec.ts": ["TypeError: helper failed"],
+    });
+  });
+
+  test("场景2: JSON 解析失败时返回空结果", () => {
+    expect(findFailedSpecFiles("not json", files)).toEqual({});
+  });
+});
+
+describe("选择器语法", () => {
+  const names = [
+    "tests/checkout/guest.spec.ts?checkout as guest",
+    "tests/checkout/member.spec.ts?checkout as member",
+    "tests/quarantine/flaky.spec.ts?checkout flaky",
+    "tests/login.spec.ts?login",
+  ].map(encodeQueryParams);
+
+  test("场景1: ! 排除选择器，只有排除选择器时从全部用例中排除", async () => {
+    expect(await selectTestcases(["!tests/quarantine/"], names, [])).toEqual(
+      names.filter((name) => !name.includes("quarantine")),
+    );
+    expect(
+      await selectTestcases(["tests/checkout/", "!tests/checkout/member.spec.ts"], names, []),
+    ).toEqual([names[0]]);
+  });
+
+  test("场景2: glob 选择器按文件路径匹配", async () => {
+    expect(await selectTestcases(["tests/**/g*.spec.ts"], names, [])).toEqual([names[0]]);
+    expect(await selectTestcases(["tests/*.spec.ts"], names, [])).toEqual([names[3]]);
+  });
+
+  test("场景3: re:/pattern/ 选择器按用例名称匹配", async () => {
+    expect(await selectTestcases(["re:/^checkout as/"], names, [])).toEqual(names.slice(0, 2));
+    expect(await selectTestcases(["re:/CHECKOUT/i", "!re:/flaky/"], names, [])).toEqual(
+      names.slice(0, 2),
+    );
+  });
+
+  test("场景4: 运行结果按整个文件和正则标识符匹配", () => {
+    delete process.env.TESTSOLAR_TTP_TESTCASE_PREFIX;
+    const specResult = {
+      projectID: "",
+      result: "passed",
+      duration: 1,
+      startTime: 1610000000,
+      endTime: 1610000001,
+      message: "",
+      content: "",
+      owner: null,
+      description: null,
+      attachments: [],
+    };
+    const output = {
+      "tests/login.spec.ts?login": [specResult],
+      "tests/checkout/guest.spec.ts?checkout as guest": [specResult],
+    };
+    expect(createTestResults(output, ["tests/login.spec.ts?"])).toHaveLength(1);
+    const results = createTestResults(output, ["?re:/^checkout/"]);
+    expect(results).toHaveLength(1);
+    expect(decodeURIComponent(results[0].Test.Name)).toBe(
+      "tests/checkout/guest.spec.ts?checkout as guest",
+    );
+  });
+});
+
+describe("generateCommands - 多配置文件", () => {
+  test("按用例路径通过 -c 指定所属的配置文件", () => {
+    const configs = ["apps/web/playwright.config.ts", "apps/admin/playwright.config.ts"];
+    const runs = planRuns(
+      { "apps/admin/tests/a.spec.ts": ["login"], "apps/web/tests/b.spec.ts": ["home"] },
+      configs,
+    );
+    expect(runs.map((run) => run.configFile)).toEqual(configs.slice().reverse());
+    expect(formatCommand(generateRunCommands(runs[0]).command)).toContain(
+      "npx playwright test -c apps/admin/playwright.config.ts apps/admin/tests/a.spec.ts ",
+    );
+    expect(formatCommand(generateCommands("tests/a.spec.ts", ["login"], "1.json").command)).toContain(
+      "npx playwright test tests/a.spec.ts ",
+    );
+  });
+});
+
+describe("splitProjectFromName", () => {
+  test("should split project prefix from case name", () => {
+    expect(splitProjectFromName("[firefox] suite login")).toEqual({
+      project: "firefox",
+      name: "suite login",
+    });
+  });
+
+  test("should return null project when no prefix", () => {
+    expect(splitProjectFromName("suite login")).toEqual({
+      project: null,
+      name: "suite login",
+    });
+  });
+});
+
 // generateCommands
 describe("generateCommands", () => {
   test("should generate test execution commands", () => {
     const path = "path/to/tests";
     const testCases = ["test1", "test2"];
     const { command } = generateCommands(path, testCases, "1.json");
-    expect(command).toContain("npx playwright test");
+    expect(formatCommand(command)).toContain("npx playwright test");
   });
 
   test("should generate test execution commands with env", () => {
@@ -220,14 +859,112 @@ describe("generateCommands", () => {
     const path = "path/to/tests";
     const testCases = ["test1", "test2"];
     const { command } = generateCommands(path, testCases, "1.json");
-    expect(command).toContain("npx playwright test");
+    expect(formatCommand(command)).toContain("npx playwright test");
+  });
+
+  test("should pass --project for project-qualified test cases", () => {
+    const testCases = [encodeURIComponent("[firefox] login"), "[webkit] logout"];
+    const { command } = generateCommands("tests/a.spec.ts", testCases, "1.json");
+    expect(command.argv).toContain(
+      "--grep=/(?:^|[ /])a\\.spec\\.ts (?:login|logout)(?: @\\S+)*$/",
+    );
+    expect(command.argv).toContain("--project=firefox");
+    expect(command.argv).toContain("--project=webkit");
+  });
+
+  test("should pass titles with quotes and shell characters as single argv", () => {
+    delete process.env.TESTSOLAR_TTP_EXTRAARGS;
+    const { command } = generateCommands("tests/a.spec.ts", ['say "hi" $HOME `id`'], "1.json");
+    expect(command.argv).toContain(
+      '--grep=/(?:^|[ /])a\\.spec\\.ts (?:say(?: @\\S+)* "hi"(?: @\\S+)* \\$HOME(?: @\\S+)* `id`)(?: @\\S+)*$/',
+    );
+  });
+
+  test("should escape and anchor titles in grep", () => {
+    const pattern = buildGrepPattern("tests/shop.spec.ts", ["price (USD) + tax", "login"]);
+    const [, source] = pattern.match(/^\/(.*)\/$/)!;
+    const grep = new RegExp(source);
+    expect(grep.test(" chromium tests/shop.spec.ts price (USD) + tax")).toBe(true);
+    expect(grep.test("  shop.spec.ts login @smoke")).toBe(true);
+    expect(grep.test("  shop.spec.ts login twice")).toBe(false);
+    expect(grep.test("  shop.spec.ts Admin login")).toBe(false);
+    expect(grep.test("  myshop.spec.ts login")).toBe(false);
+    expect(grep.test("  shop.spec.ts Login")).toBe(false);
+  });
+
+  test("should match tests inside describes with details tags", () => {
+    const pattern = buildGrepPattern("tests/a.spec.ts", ["Suite Inner login"]);
+    const grep = new RegExp(pattern.slice(1, -1));
+    expect(grep.test("  a.spec.ts Suite @smoke Inner login")).toBe(true);
+    expect(grep.test("  a.spec.ts Suite @smoke @p1 Inner @fast login @slow")).toBe(true);
+    expect(grep.test("  a.spec.ts Suite Inner login")).toBe(true);
+    expect(grep.test("  a.spec.ts Suite @smoke Inner login twice")).toBe(false);
+  });
+
+  test("should split extraArgs like shell without expanding variables", () => {
+    process.env.TESTSOLAR_TTP_EXTRAARGS = `--grep-invert "slow test" --max-failures=1 '$HOME'`;
+    const { command } = generateCommands("tests/a.spec.ts", [], "1.json");
+    expect(command.argv.slice(-4)).toEqual([
+      "--grep-invert",
+      "slow test",
+      "--max-failures=1",
+      "$HOME",
+    ]);
+    delete process.env.TESTSOLAR_TTP_EXTRAARGS;
+  });
+
+  test("should set json output by env or stdout file", () => {
+    process.env.TESTSOLAR_TTP_ENVJSONFILE = "1";
+    expect(generateCommands("tests/a.spec.ts", ["a"], "1.json").command.env).toEqual({
+      PLAYWRIGHT_JSON_OUTPUT_NAME: "1.json",
+    });
+    process.env.TESTSOLAR_TTP_ENVJSONFILE = "0";
+    expect(generateCommands("tests/a.spec.ts", ["a"], "1.json").command.stdoutFile).toBe(
+      "1.json",
+    );
+    delete process.env.TESTSOLAR_TTP_ENVJSONFILE;
+  });
+
+  test("should run whole files and directories without grep", () => {
+    const { command } = generateCommands("tests/a.spec.ts", ["", "login"], "1.json");
+    expect(command.argv).toContain("tests/a.spec.ts");
+    expect(formatCommand(command)).not.toContain("--grep");
+
+    const pattern = buildGrepPattern("tests/admin", ["login"]);
+    const grep = new RegExp(pattern.slice(1, -1));
+    expect(grep.test("  sub/users.spec.ts login")).toBe(true);
+    expect(grep.test("  users.spec.ts Admin login")).toBe(false);
+  });
+
+  test("should pass --shard and keep blob report when sharding", () => {
+    process.env.TESTSOLAR_TTP_SHARDINDEX = "2";
+    process.env.TESTSOLAR_TTP_SHARDTOTAL = "4";
+    const { command } = generateCommands("tests/a.spec.ts", ["a"], "1.json");
+    expect(command.argv).toContain("--shard=2/4");
+    expect(command.argv).toContain("--reporter=json,blob");
+    expect(command.env.PLAYWRIGHT_BLOB_OUTPUT_FILE).toBe(
+      path.join("blob-report", "report-2-of-4-1.zip"),
+    );
+    delete process.env.TESTSOLAR_TTP_SHARDINDEX;
+    delete process.env.TESTSOLAR_TTP_SHARDTOTAL;
+  });
+
+  test("should inject stream reporter only when enabled", () => {
+    const disabled = generateCommands("tests/a.spec.ts", ["a"], "1.json").command;
+    expect(disabled.argv).toContain("--reporter=json");
+    expect(disabled.env.TESTSOLAR_TTP_STREAMFILE).toBeUndefined();
+    process.env.TESTSOLAR_TTP_STREAMRESULTS = "1";
+    const { command } = generateCommands("tests/a.spec.ts", ["a"], "1.json");
+    expect(command.argv).toContain(`--reporter=json,${STREAM_REPORTER_PATH}`);
+    expect(command.env.TESTSOLAR_TTP_STREAMFILE).toBe("1.stream.jsonl");
+    delete process.env.TESTSOLAR_TTP_STREAMRESULTS;
   });
 
   test("should generate zero test execution commands", () => {
     const path = "path/to/tests";
     const testCases: string[] = [];
     const { command } = generateCommands(path, testCases, "1.json");
-    expect(command).toContain("npx playwright test");
+    expect(formatCommand(command)).toContain("npx playwright test");
   });
   
   test("should generate zero test execution commands with env", () => {
@@ -235,7 +972,7 @@ describe("generateCommands", () => {
     const path = "path/to/tests";
     const testCases: string[] = [];
     const { command } = generateCommands(path, testCases, "1.json");
-    expect(command).toContain("npx playwright test");
+    expect(formatCommand(command)).toContain("npx playwright test");
   });
 });
 
@@ -344,7 +1081,11 @@ describe("parseJsonContent", () => {
                 {
                   annotations: [
                     {
-                      owner:"amb",
+                      type: "owner",
+                      description: "amb"
+                    },
+                    {
+                      type: "description",
                       description: "desc"
                     }
                   ],
@@ -458,6 +1199,7 @@ describe("parseJsonContent", () => {
         {
           description: "desc",
           owner: "amb",
+          attributes: { owner: "amb", description: "desc" },
           content: "\n==== 标准输出 ====\n增加日志展示\n进入百度页面\n点击输入框\n输入playwright\n点击百度一下\n等待弹出页面\n点击百度翻译\n\n==== 标准错误输出 ====\n点击百度翻译\nError 2\n",
           duration: 1,
           endTime: 1672531201,
@@ -466,10 +1208,16 @@ describe("parseJsonContent", () => {
           result: "passed",
           startTime: 1672531200,
           attachments: [],
+          outcome: "expected",
+          attempts: [
+            expect.objectContaining({ retry: 0, result: "passed", content: "" }),
+            expect.objectContaining({ retry: 1, result: "passed", message: "" }),
+          ],
         },
         {
           description: null,
           owner: null,
+          attributes: {},
           content: "Error 2\n",
           duration: 1,
           endTime: 1672531201,
@@ -478,7 +1226,12 @@ describe("parseJsonContent", () => {
           result: "passed",
           startTime: 1672531200,
           attachments: [
-            new Attachment("test-failed-1.png", "/root/work/123test/js_project/test-results/test-1-test-chromium/test-failed-1.png", AttachmentType.FILE),
+            new Attachment("screenshot.png", "/root/work/123test/js_project/test-results/test-1-test-chromium/test-failed-1.png", AttachmentType.FILE),
+          ],
+          outcome: "expected",
+          attempts: [
+            expect.objectContaining({ retry: 0, content: "" }),
+            expect.objectContaining({ retry: 1, content: "Error 2\n" }),
           ],
         },
       ]
@@ -503,7 +1256,23 @@ describe("parseJsonFile", () => {
           content: "\n==== 标准输出 ====\n增加日志展示\n进入百度页面\n点击输入框\n输入playwright\n点击百度一下\n等待弹出页面\n点击百度翻译\n",
           owner: null,
           description: null,
+          attributes: {},
           attachments: [],
+          outcome: "expected",
+          attempts: [
+            {
+              retry: 0,
+              result: "passed",
+              duration: 1,
+              startTime: 1672531200,
+              endTime: 1672531201,
+              message: "",
+              content: "\n==== 标准输出 ====\n增加日志展示\n进入百度页面\n点击输入框\n输入playwright\n点击百度一下\n等待弹出页面\n点击百度翻译\n",
+              attachments: [],
+              steps: [],
+              errors: [],
+            },
+          ],
         },
       ],
     };
@@ -517,6 +1286,24 @@ describe("parseJsonFile", () => {
     const expectedResults = {};
     expect(result).toEqual(expectedResults);
   });
+
+  test("should not report cases from an empty playwright shard as failed", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pw-shard-"));
+    const jsonName = path.join(dir, "empty.json");
+    fs.writeFileSync(
+      jsonName,
+      JSON.stringify({ config: { rootDir: dir }, suites: [], errors: [], stats: {} }),
+    );
+    expect(Object.keys(parseJsonFile(dir, jsonName, ["a.spec.ts?login"]))).toEqual([
+      "a.spec.ts?login",
+    ]);
+    process.env.TESTSOLAR_TTP_SHARDINDEX = "2";
+    process.env.TESTSOLAR_TTP_SHARDTOTAL = "2";
+    expect(parseJsonFile(dir, jsonName, ["a.spec.ts?login"])).toEqual({});
+    delete process.env.TESTSOLAR_TTP_SHARDINDEX;
+    delete process.env.TESTSOLAR_TTP_SHARDTOTAL;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
 });
 
 describe("createTempDirectory", () => {
@@ -544,6 +1331,47 @@ describe("groupTestCasesByPath", () => {
       path2: ["test2"],
     });
   });
+
+  test("should exclude selectors starting with !", () => {
+    const testcases = [
+      "path1?test1",
+      "path1?flaky test",
+      "quarantine/a.spec.ts?test3",
+      "!quarantine/",
+      "!re:/flaky/",
+    ];
+    expect(groupTestCasesByPath(testcases)).toEqual({ path1: ["test1"] });
+  });
+
+  test("should group regex selectors without path", () => {
+    expect(groupTestCasesByPath(["re:/^checkout/i"])).toEqual({
+      "": ["re:/^checkout/i"],
+    });
+    const { command } = generateCommands("", ["re:/^checkout/i"], "1.json");
+    expect(command.argv).toContain("--grep=/(?:^checkout)/i");
+    expect(generateCommands("", ["re:/^checkout/"], "1.json").command.argv).toContain(
+      "--grep=/(?:^checkout)/",
+    );
+  });
+
+  test("should expand regex selectors to matching test cases by name", () => {
+    const names = [
+      "tests/a.spec.ts?Plain%20login",
+      "tests/a.spec.ts?Suite%20Plain%20logout",
+      "tests/b.spec.ts?price%20(USD)%20total",
+    ];
+    expect(
+      expandRegexSelectors(["re:/^Plain/", "tests/c.spec.ts?x", "!re:/logout/"], names),
+    ).toEqual(["tests/a.spec.ts?Plain login", "tests/c.spec.ts?x", "!re:/logout/"]);
+    expect(expandRegexSelectors(["re:/plain/i", "re:/^Plain/"], names)).toEqual([
+      "tests/a.spec.ts?Plain login",
+      "tests/a.spec.ts?Suite Plain logout",
+    ]);
+    expect(expandRegexSelectors(["re:/\\(USD\\)/"], names)).toEqual([
+      "tests/b.spec.ts?price (USD) total",
+    ]);
+    expect(expandRegexSelectors(["re:/^nothing/"], names)).toEqual([]);
+  });
 });
 
 describe("createTestResults", () => {
@@ -832,9 +1660,56 @@ describe("createTestResults - 区分 skipped 与 failed", () => {
     // testIdentifiers 中的 identifier 不在 output 里
     const tests = ["requested/case"];
     const testResults = createTestResults(output, tests);
-    // 由于 output 中的用例是 skipped（而非 failed），不应成为参考失败用例，
-    // 因此不会为 requested/case 生成兜底的 FAILED 结果
-    expect(testResults).toHaveLength(0);
+    // output 中的用例不会被用作参考用例，requested/case 没有运行结果，
+    // 按失败上报并说明 Playwright 没有运行该用例，而不是复制其它用例的结果
+    expect(testResults).toHaveLength(1);
+    expect(testResults[0].Test.Name).toMatch(/requested\/case$/);
+    expect(testResults[0].ResultType).toBe(ResultType.FAILED);
+    expect(testResults[0].Message).toContain("Playwright 没有运行该用例");
+  });
+
+  test("场景3.1: 没有运行结果的用例按失败上报，正则选择器和实时上报时不上报", () => {
+    process.env.TESTSOLAR_TTP_TESTCASE_PREFIX = "e2e";
+    const output = {
+      "tests/a.spec.ts?login": [
+        {
+          projectID: "",
+          result: "passed",
+          duration: 1,
+          startTime: 1610000000,
+          endTime: 1610000001,
+          message: "",
+          content: "",
+          owner: null,
+          description: null,
+          attachments: [],
+        },
+      ],
+    };
+    const identifiers = [
+      "tests/a.spec.ts?login",
+      "tests/a.spec.ts?Suite logout",
+      "tests/b.spec.ts?",
+      "?re:/^checkout/",
+    ];
+    const testResults = createTestResults(output, identifiers);
+    expect(testResults.map((result) => [result.Test.Name, result.ResultType])).toEqual([
+      ["e2e/tests/a.spec.ts?login", ResultType.SUCCEED],
+      ["e2e/tests/a.spec.ts?Suite%20logout", ResultType.FAILED],
+      ["e2e/tests/b.spec.ts", ResultType.FAILED],
+    ]);
+    expect(testResults[1].Message).toBe(
+      "Playwright 没有运行该用例: tests/a.spec.ts?Suite logout，请检查用例名称、标签或选择器是否与 Playwright 中的用例一致",
+    );
+    expect(testResults[1].Steps[0].Logs[0].Level).toBe(LogLevel.ERROR);
+    expect(createTestResults(output, identifiers, false)).toHaveLength(1);
+    // fileMode 下以文件路径为标识符，文件中有用例结果时不再上报失败
+    process.env.TESTSOLAR_TTP_FILEMODE = "1";
+    expect(createTestResults(output, ["tests/a.spec.ts"]).map((result) => result.ResultType)).toEqual([
+      ResultType.SUCCEED,
+    ]);
+    delete process.env.TESTSOLAR_TTP_FILEMODE;
+    delete process.env.TESTSOLAR_TTP_TESTCASE_PREFIX;
   });
 
   test("场景4: timedOut 用例最终 ResultType 为 FAILED", () => {
@@ -939,4 +1814,366 @@ describe("parseJsonContent - skipped 状态不追加'错误信息'标题", () =>
     expect(result[key][0].content).toContain("==== 错误信息 ====");
     expect(result[key][0].content).toContain("real error");
   });
-});
\ No newline at end of file
+});
+describe("scanPlaywrightTestFilesByConfig", () => {
+  test("按 playwright 配置扫描用例文件，并报告配置不匹配的用例文件", () => {
+    const projPath = fs.mkdtempSync(path.join(os.tmpdir(), "pw-scan-"));
+    const write = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(projPath, file)), { recursive: true });
+      fs.writeFileSync(path.join(projPath, file), content);
+    };
+    try {
+      write("playwright.config.ts", "export default { testDir: './e2e', testIgnore: '**/quarantine/**' };");
+      write("e2e/login.spec.ts", "test('login', async () => {});");
+      write("e2e/quarantine/flaky.spec.ts", "test('flaky', async () => {});");
+      write("unit/sum.test.ts", "test('sum', () => {});");
+      const { files, loadErrors } = scanPlaywrightTestFilesByConfig(projPath);
+      expect(files).toEqual([path.join(projPath, "e2e/login.spec.ts")]);
+      expect(loadErrors.map((error) => error.Name).sort()).toEqual([
+        path.join("e2e", "quarantine", "flaky.spec.ts"),
+        path.join("unit", "sum.test.ts"),
+      ]);
+    } finally {
+      fs.rmSync(projPath, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("chunkTestCases", () => {
+  afterEach(() => {
+    delete process.env.TESTSOLAR_TTP_CHUNKSIZE;
+  });
+
+  test("场景1: 按数量拆分，TESTSOLAR_TTP_CHUNKSIZE 未配置或为 0 时不按数量拆分", () => {
+    const testCases = Array.from({ length: 250 }, (_, index) => `case ${index}`);
+    expect(chunkTestCases(testCases)).toHaveLength(1);
+    process.env.TESTSOLAR_TTP_CHUNKSIZE = "100";
+    expect(chunkTestCases(testCases).map((chunk) => chunk.length)).toEqual([100, 100, 50]);
+    process.env.TESTSOLAR_TTP_CHUNKSIZE = "0";
+    expect(chunkTestCases(testCases)).toHaveLength(1);
+  });
+
+  test("场景2: 用例名称总长度超过上限时拆分", () => {
+    process.env.TESTSOLAR_TTP_CHUNKSIZE = "100";
+    const testCases = Array.from({ length: 10 }, (_, index) => `${index}`.padEnd(1000, "x"));
+    expect(chunkTestCases(testCases).map((chunk) => chunk.length)).toEqual([6, 4]);
+  });
+
+  test("场景2.1: 默认配置下用例名称总长度超过上限时同样拆分", () => {
+    const testCases = Array.from({ length: 10 }, (_, index) => `${index}`.padEnd(1000, "x"));
+    expect(chunkTestCases(testCases).map((chunk) => chunk.length)).toEqual([6, 4]);
+    const runs = planRuns({ "tests/a.spec.ts": testCases });
+    expect(runs.map((run) => run.caseLists["tests/a.spec.ts"].length)).toEqual([6, 4]);
+  });
+
+  test("场景3: 每次运行使用独立的 JSON 文件，结果合并后生成", () => {
+    expect(getChunkJsonName("a_pid_1.json", 0, 1)).toBe("a_pid_1.json");
+    expect(getChunkJsonName("a_pid_1.json", 1, 3)).toBe("a_pid_1_chunk2.json");
+
+    const result = {
+      projectID: null,
+      result: "passed",
+      duration: 1,
+      startTime: 1610000000,
+      endTime: 1610000001,
+      message: "",
+      content: "",
+      owner: null,
+      description: null,
+    };
+    const merged = mergeSpecResults({ "a.spec.ts?x": [result] }, {
+      "a.spec.ts?x": [result],
+      "a.spec.ts?y": [result],
+    });
+    expect(merged["a.spec.ts?x"]).toHaveLength(2);
+    expect(merged["a.spec.ts?y"]).toHaveLength(1);
+  });
+});
+
+describe("planRuns", () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env.TESTSOLAR_TTP_COMBINEFILES;
+    delete process.env.TESTSOLAR_TTP_CHUNKSIZE;
+  });
+
+  test("场景1: 默认每个文件分组单独运行，使用独立的 JSON 文件", () => {
+    const runs = planRuns({ "tests/a.spec.ts": ["a"], "tests/b.spec.ts": ["b"] });
+    expect(runs.map((run) => run.caseLists)).toEqual([
+      { "tests/a.spec.ts": ["a"] },
+      { "tests/b.spec.ts": ["b"] },
+    ]);
+    expect(runs[0].jsonName).toBe(`tests_a.spec.ts_pid_${process.pid}.json`);
+  });
+
+  test("场景1.1: 同一文件中不同 project 的用例分别运行，每次运行只指定一个 project", () => {
+    const runs = planRuns({
+      "tests/a.spec.ts": ["[chromium] login", "[firefox] logout", "[chromium] profile"],
+    });
+    expect(runs.map((run) => run.caseLists)).toEqual([
+      { "tests/a.spec.ts": ["[chromium] login", "[chromium] profile"] },
+      { "tests/a.spec.ts": ["[firefox] logout"] },
+    ]);
+    expect(runs.map((run) => run.jsonName)).toEqual([
+      `tests_a.spec.ts_pid_${process.pid}_chunk1.json`,
+      `tests_a.spec.ts_pid_${process.pid}_chunk2.json`,
+    ]);
+    const [chromium, firefox] = runs.map((run) => generateRunCommands(run).command.argv);
+    expect(chromium.filter((arg) => arg.startsWith("--project="))).toEqual(["--project=chromium"]);
+    expect(firefox.filter((arg) => arg.startsWith("--project="))).toEqual(["--project=firefox"]);
+  });
+
+  test("场景2: 合并运行时按 project 和单次运行用例数量合并分组", () => {
+    process.env.TESTSOLAR_TTP_COMBINEFILES = "1";
+    process.env.TESTSOLAR_TTP_CHUNKSIZE = "3";
+    const runs = planRuns({
+      "tests/a.spec.ts": ["a1", "a2"],
+      "tests/b.spec.ts": ["[firefox] b"],
+      "tests/c.spec.ts": [""],
+      "tests/d.spec.ts": ["d1", "d2"],
+      "": ["re:/checkout/"],
+    });
+    expect(runs.map((run) => run.caseLists)).toEqual([
+      { "tests/a.spec.ts": ["a1", "a2"], "tests/c.spec.ts": [""] },
+      { "tests/b.spec.ts": ["[firefox] b"] },
+      { "tests/d.spec.ts": ["d1", "d2"] },
+      { "": ["re:/checkout/"] },
+    ]);
+    expect(getCombineKey("tests/a.spec.ts:12", [""])).toBeNull();
+
+    const { command, testIdentifiers } = generateRunCommands(runs[0]);
+    expect(command.argv).toContain("tests/a.spec.ts");
+    expect(command.argv).toContain("tests/c.spec.ts");
+    const grep = command.argv.find((arg) => arg.startsWith("--grep="))!;
+    const regex = new RegExp(grep.slice("--grep=/".length, -1));
+    expect(regex.test("  a.spec.ts a1")).toBe(true);
+    expect(regex.test("  a.spec.ts a3")).toBe(false);
+    expect(regex.test("  c.spec.ts anything")).toBe(true);
+    expect(testIdentifiers).toEqual([
+      "tests/a.spec.ts?a1",
+      "tests/a.spec.ts?a2",
+      "tests/c.spec.ts?",
+    ]);
+  });
+});
+
+describe("runWithConcurrency", () => {
+  test("should limit concurrency and keep task order", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const tasks = [30, 10, 20, 5].map((delay, index) => async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running--;
+      return index;
+    });
+    expect(await runWithConcurrency(tasks, 2)).toEqual([0, 1, 2, 3]);
+    expect(maxRunning).toBe(2);
+  });
+});
+
+describe("重试与 flaky 用例", () => {
+  const data = {
+    config: { rootDir: "/project" },
+    suites: [
+      {
+        title: "a.spec.ts",
+        file: "a.spec.ts",
+        specs: [
+          {
+            title: "flaky case",
+            file: "a.spec.ts",
+            tests: [
+              {
+                projectId: "",
+                status: "flaky",
+                results: [
+                  {
+                    retry: 0,
+                    startTime: "2023-01-01T00:00:00Z",
+                    duration: 1000,
+                    status: "failed",
+                    errors: [{ message: "first failure" }],
+                    stdout: [{ text: "attempt 1\n" }],
+                  },
+                  {
+                    retry: 1,
+                    startTime: "2023-01-01T00:00:02Z",
+                    duration: 1000,
+                    status: "passed",
+                    stdout: [{ text: "attempt 2\n" }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  test("场景1: 按 Playwright 的规则计算用例结论", () => {
+    expect(getTestOutcome({ results: [{ status: "failed" }, { status: "passed" }] } as never)).toBe("flaky");
+    expect(getTestOutcome({ results: [{ status: "failed" }, { status: "failed" }] } as never)).toBe("unexpected");
+    expect(getTestOutcome({ results: [{ status: "skipped" }] } as never)).toBe("skipped");
+    expect(getTestOutcome({ expectedStatus: "failed", results: [{ status: "failed" }] } as never)).toBe("expected");
+    expect(getTestOutcome({ status: "flaky", results: [] } as never)).toBe("flaky");
+  });
+
+  test("场景2: 每次执行作为单独的步骤上报，并标记 flaky 结论", () => {
+    const output = parseJsonContent("/project", data as never);
+    const [testResult] = createTestResults(output, ["a.spec.ts?flaky case"]);
+    expect(testResult.ResultType).toBe(ResultType.SUCCEED);
+    expect(testResult.Test.Attributes).toEqual(
+      expect.objectContaining({ outcome: "flaky", attempts: "2" }),
+    );
+    expect(testResult.StartTime).toBe("2023-01-01T00:00:00.000Z");
+    expect(testResult.Steps.map((step: TestCaseStep) => [step.Title, step.ResultType])).toEqual([
+      ["Run", ResultType.FAILED],
+      ["Retry #1", ResultType.SUCCEED],
+    ]);
+    expect(testResult.Steps[0].Logs[0].Content).toContain("first failure");
+    expect(testResult.Steps[1].Logs[0].Content).toContain("attempt 2");
+    expect(testResult.Steps[1].Logs[0].Content).not.toContain("attempt 1");
+  });
+});
+
+describe("test.step 步骤", () => {
+  test("场景1: 没有开始时间的步骤按同一层级依次执行估算时间", () => {
+    const steps = parseResultSteps(
+      [
+        { title: "open", duration: 1000, steps: [{ title: "goto", duration: 500 }] },
+        { title: "login", duration: 2000, error: { message: "boom", stack: "Error: boom\n    at a.spec.ts:3" } },
+        { title: "streamed", duration: 100, startTime: "2023-01-01T00:00:10Z" },
+      ],
+      1672531200,
+    );
+    expect(steps).toEqual([
+      {
+        title: "open",
+        startTime: 1672531200,
+        endTime: 1672531201,
+        error: "",
+        steps: [{ title: "goto", startTime: 1672531200, endTime: 1672531200.5, error: "", steps: [] }],
+      },
+      {
+        title: "login",
+        startTime: 1672531201,
+        endTime: 1672531203,
+        error: "Error: boom\n    at a.spec.ts:3",
+        steps: [],
+      },
+      { title: "streamed", startTime: 1672531210, endTime: 1672531210.1, error: "", steps: [] },
+    ]);
+  });
+
+  test("场景2: 步骤树展开为 TestCaseStep，出错的步骤为失败并带上错误日志", () => {
+    const data = {
+      config: { rootDir: "/project" },
+      suites: [
+        {
+          title: "a.spec.ts",
+          file: "a.spec.ts",
+          specs: [
+            {
+              title: "journey",
+              file: "a.spec.ts",
+              tests: [
+                {
+                  projectId: "",
+                  results: [
+                    {
+                      startTime: "2023-01-01T00:00:00Z",
+                      duration: 3000,
+                      status: "failed",
+                      error: { message: "boom" },
+                      steps: [
+                        { title: "open", duration: 1000 },
+                        {
+                          title: "checkout",
+                          duration: 2000,
+                          error: { message: "boom" },
+                          steps: [{ title: "pay", duration: 2000, error: { message: "boom" } }],
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+    const output = parseJsonContent("/project", data as never);
+    const [testResult] = createTestResults(output, ["a.spec.ts?journey"]);
+    expect(testResult.Steps.map((step: TestCaseStep) => [step.Title, step.ResultType])).toEqual([
+      ["open", ResultType.SUCCEED],
+      ["checkout", ResultType.FAILED],
+      ["checkout › pay", ResultType.FAILED],
+    ]);
+    expect(testResult.Steps[0].StartTime).toBe("2023-01-01T00:00:00.000Z");
+    expect(testResult.Steps[1].StartTime).toBe("2023-01-01T00:00:01.000Z");
+    expect(testResult.Steps[2].EndTime).toBe("2023-01-01T00:00:03.000Z");
+    expect(testResult.Steps[0].Logs).toEqual([]);
+    expect(testResult.Steps[2].Logs[0].Level).toBe(LogLevel.ERROR);
+    expect(testResult.Steps[2].Logs[0].Content).toBe("boom");
+    // 用例的日志放在最后一个步骤中
+    expect(testResult.Steps[2].Logs.map((log: { Content: string }) => log.Content)).toEqual([
+      "boom",
+      "",
+    ]);
+  });
+});
+
+describe("结构化错误", () => {
+  test("场景1: 每个错误生成一条带有结构化错误的错误日志", () => {
+    const data = {
+      config: { rootDir: "/project" },
+      suites: [
+        {
+          title: "a.spec.ts",
+          file: "a.spec.ts",
+          specs: [
+            {
+              title: "soft",
+              file: "a.spec.ts",
+              tests: [
+                {
+                  projectId: "",
+                  results: [
+                    {
+                      startTime: "2023-01-01T00:00:00Z",
+                      duration: 1000,
+                      status: "failed",
+                      errors: [
+                        { message: "Error: expect(received).toBe(expected)\n\nExpected: 2\nReceived: 1" },
+                        { message: "TypeError: x is undefined\n\n> 3 |   x.y;\n    |     ^\n    at a.spec.ts:3:5" },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+    const output = parseJsonContent("/project", data as never);
+    const [testResult] = createTestResults(output, ["a.spec.ts?soft"]);
+    const [mainLog, assertLog, runtimeLog] = testResult.Steps[0].Logs;
+    expect(mainLog.AssertError).toBeUndefined();
+    expect(assertLog.Level).toBe(LogLevel.ERROR);
+    expect(assertLog.Time).toBe("2023-01-01T00:00:01.000Z");
+    expect(assertLog.AssertError).toEqual(
+      expect.objectContaining({ Expect: "2", Actual: "1" }),
+    );
+    expect(runtimeLog.RuntimeError).toEqual(
+      expect.objectContaining({ Summary: "TypeError: x is undefined" }),
+    );
+  });
+});